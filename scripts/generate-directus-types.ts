@@ -1,14 +1,8 @@
-import { execa } from "execa";
-import { existsSync, mkdirSync } from "fs";
-import { dirname, resolve } from "path";
+import { resolve } from "path";
+import { generateDirectusTypes } from "../src/generate-types";
+import type { DirectusTypesConfig } from "../src/module";
 
-interface TypesConfig {
-    enabled: boolean;
-    openApiUrl?: string;
-    output: string;
-    redoclyConfig?: string;
-    authHeaderEnv: string;
-}
+type TypesConfig = DirectusTypesConfig;
 
 // Default configuration
 const defaultConfig: TypesConfig = {
@@ -18,7 +12,7 @@ const defaultConfig: TypesConfig = {
     authHeaderEnv: "DIRECTUS_OPENAPI_TOKEN",
 };
 
-async function generateDirectusTypes() {
+async function generateTypesFromEnv() {
     console.log("🔄 Generating Directus TypeScript types...\n");
 
     // Read configuration from environment or use defaults
@@ -43,64 +37,20 @@ async function generateDirectusTypes() {
         process.exit(1);
     }
 
-    // Read auth token from environment
-    const authToken = process.env[config.authHeaderEnv];
-
-    if (!authToken) {
-        console.warn(`⚠️  Warning: ${config.authHeaderEnv} environment variable not set`);
-        console.warn("   Type generation may fail if the API requires authentication\n");
-    }
-
-    // Ensure output directory exists
-    const outputPath = resolve(process.cwd(), config.output);
-    const outputDir = dirname(outputPath);
+    console.log(`📝 Output file: ${resolve(process.cwd(), config.output)}\n`);
 
-    if (!existsSync(outputDir)) {
-        mkdirSync(outputDir, { recursive: true });
-        console.log(`📁 Created output directory: ${outputDir}`);
-    }
-
-    // Build openapi-typescript command arguments
-    const args = [config.openApiUrl, "-o", outputPath];
-
-    // Add Redocly config if provided
-    if (config.redoclyConfig) {
-        args.push("--redocly", config.redoclyConfig);
-    }
-
-    // Add authorization header if token is available
-    const env: Record<string, string> = { ...process.env };
-
-    try {
-        console.log(`📡 Fetching OpenAPI schema from: ${config.openApiUrl}`);
-        console.log(`📝 Output file: ${outputPath}\n`);
-
-        // Execute openapi-typescript
-        const { stdout, stderr } = await execa("npx", ["openapi-typescript", ...args], {
-            env: authToken
-                ? {
-                      ...env,
-                      OPENAPI_TYPESCRIPT_HEADERS: JSON.stringify({
-                          Authorization: authToken,
-                      }),
-                  }
-                : env,
-        });
-
-        if (stdout) console.log(stdout);
-        if (stderr) console.error(stderr);
-
-        console.log("\n✅ TypeScript types generated successfully!");
-        console.log(`   Location: ${outputPath}`);
-    } catch (error: any) {
-        console.error("\n❌ Failed to generate types:");
-        console.error(error.message);
-
-        if (error.stderr) {
-            console.error("\nDetails:");
-            console.error(error.stderr);
-        }
+    // Shares the generator the module runs during `nuxi prepare`, `dev` and `build`
+    const success = await generateDirectusTypes(config, {
+        rootDir: process.cwd(),
+        tmpDir: resolve(process.cwd(), "node_modules/.cache/nuxt-directus"),
+        logger: {
+            info: (...args) => console.log(...args),
+            warn: (...args) => console.warn(...args),
+            success: (...args) => console.log(...args),
+        },
+    });
 
+    if (!success) {
         console.error("\n💡 Troubleshooting:");
         console.error("   - Verify the OpenAPI URL is accessible");
         console.error("   - Check if authentication token is valid");
@@ -108,10 +58,12 @@ async function generateDirectusTypes() {
 
         process.exit(1);
     }
+
+    console.log("\n✅ TypeScript types generated successfully!");
 }
 
 // Run the script
-generateDirectusTypes().catch((error) => {
+generateTypesFromEnv().catch((error) => {
     console.error("Unexpected error:", error);
     process.exit(1);
 });
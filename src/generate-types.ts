@@ -0,0 +1,94 @@
+import { copyFileSync, existsSync, mkdirSync, rmSync, writeFileSync } from "fs";
+import { dirname, join, resolve } from "path";
+import { loadConfig } from "@redocly/openapi-core";
+import openapiTS, { astToString, COMMENT_HEADER } from "openapi-typescript";
+import type { DirectusTypesConfig } from "./module";
+
+// Module setup waits for the schema on every prepare, dev and build, so an unreachable Directus must not stall it
+const FETCH_TIMEOUT = 30_000;
+
+export interface GenerateTypesLogger {
+    info: (...args: any[]) => void;
+    warn: (...args: any[]) => void;
+    success: (...args: any[]) => void;
+}
+
+export interface GenerateTypesOptions {
+    /**
+     * Directory the `output` and `redoclyConfig` paths are resolved against
+     */
+    rootDir: string;
+    /**
+     * Directory for the pending output
+     */
+    tmpDir: string;
+    logger: GenerateTypesLogger;
+}
+
+/**
+ * Generate TypeScript types from the Directus OpenAPI schema.
+ *
+ * The schema is downloaded and converted into a temporary file first, so the
+ * previous output is only replaced once generation succeeded. Returns `false`
+ * instead of throwing when anything fails.
+ */
+export async function generateDirectusTypes(config: DirectusTypesConfig, options: GenerateTypesOptions): Promise<boolean> {
+    const { logger } = options;
+    const outputPath = resolve(options.rootDir, config.output);
+
+    if (!config.openApiUrl) {
+        logger.warn("[Directus] `types.openApiUrl` is not configured, skipping type generation");
+        return false;
+    }
+
+    // Read auth token from environment
+    const authToken = process.env[config.authHeaderEnv];
+
+    if (!authToken) {
+        logger.warn(`[Directus] ${config.authHeaderEnv} environment variable not set, type generation may fail if the API requires authentication`);
+    }
+
+    if (!existsSync(options.tmpDir)) {
+        mkdirSync(options.tmpDir, { recursive: true });
+    }
+
+    const pendingPath = join(options.tmpDir, "schema.d.ts");
+
+    try {
+        logger.info(`[Directus] Fetching OpenAPI schema from ${config.openApiUrl}`);
+
+        const response = await fetch(config.openApiUrl, {
+            headers: authToken ? { Authorization: authToken } : {},
+            signal: AbortSignal.timeout(FETCH_TIMEOUT),
+        });
+
+        if (!response.ok) {
+            throw new Error(`Request failed with status ${response.status} ${response.statusText}`);
+        }
+
+        // Through the API, the CLI of openapi-typescript may not resolve from the project or be downloaded by npx
+        const redocly = config.redoclyConfig ? await loadConfig({ configPath: resolve(options.rootDir, config.redoclyConfig) }) : undefined;
+        const ast = await openapiTS(await response.text(), { redocly });
+        writeFileSync(pendingPath, COMMENT_HEADER + astToString(ast));
+
+        // Only replace the previous output once generation succeeded
+        const outputDir = dirname(outputPath);
+        if (!existsSync(outputDir)) {
+            mkdirSync(outputDir, { recursive: true });
+        }
+        copyFileSync(pendingPath, outputPath);
+
+        logger.success(`[Directus] TypeScript types generated: ${outputPath}`);
+        return true;
+    } catch (error: any) {
+        logger.warn(`[Directus] Failed to generate types: ${error.message}`);
+
+        if (existsSync(outputPath)) {
+            logger.warn(`[Directus] Keeping previously generated types at ${outputPath}`);
+        }
+
+        return false;
+    } finally {
+        rmSync(pendingPath, { force: true });
+    }
+}
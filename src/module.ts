@@ -1,5 +1,10 @@
-import { defineNuxtModule, addPlugin, createResolver, addImportsDir, addRouteMiddleware } from "@nuxt/kit";
+import { defineNuxtModule, addPlugin, addServerHandler, addServerImportsDir, createResolver, addImportsDir, addRouteMiddleware, addTypeTemplate, addComponent, hasNuxtModule, useLogger } from "@nuxt/kit";
+import type { ModuleDependencies } from "@nuxt/schema";
 import { defu } from "defu";
+import { existsSync } from "fs";
+import { join, resolve } from "path";
+import { generateDirectusTypes } from "./generate-types";
+import type { DirectusAssetTransform } from "./runtime/utils/assets";
 
 export interface DirectusPermissionsConfig {
     enabled: boolean;
@@ -8,7 +13,27 @@ export interface DirectusPermissionsConfig {
     transform?: (fieldValue: any, user: any) => string | string[];
 }
 
+export interface DirectusSessionConfig {
+    /**
+     * Keep the tokens in httpOnly cookies managed by Nitro routes instead of JS-readable cookies
+     */
+    enabled: boolean;
+    /**
+     * Prefix of the login, logout, refresh and me routes
+     */
+    routePrefix: string;
+    /**
+     * Max age of the refresh token cookie in seconds (defaults to 7 days)
+     */
+    maxAge?: number;
+}
+
 export interface DirectusAuthConfig {
+    /**
+     * `cookie` (user sessions), `static` (read-only token from the private `runtimeConfig.directus.staticToken`)
+     * or `none` (public role only). `static` and `none` skip readMe, the auth middleware and the token cookies.
+     */
+    mode?: "cookie" | "static" | "none";
     loginPath: string;
     registerPath: string;
     afterLoginPath: string;
@@ -16,6 +41,7 @@ export interface DirectusAuthConfig {
     resetPasswordUrl?: string;
     verificationUrl?: string;
     permissions?: DirectusPermissionsConfig;
+    session?: DirectusSessionConfig;
 }
 
 export interface DirectusTypesConfig {
@@ -26,10 +52,154 @@ export interface DirectusTypesConfig {
     authHeaderEnv: string;
 }
 
+export interface DirectusProxyConfig {
+    /**
+     * Forward REST requests from the browser through Nitro instead of calling Directus directly
+     */
+    enabled: boolean;
+    /**
+     * Path of the proxy route, requests to `${path}/**` are forwarded to Directus
+     */
+    path: string;
+}
+
+export interface DirectusCacheConfig {
+    /**
+     * Cache and deduplicate `getItems`/`getItem` results in `useDirectusApi`
+     */
+    enabled: boolean;
+    /**
+     * Lifetime of cached results in milliseconds
+     */
+    ttl: number;
+}
+
+export interface DirectusRequestConfig {
+    /**
+     * Abort requests of `useDirectusApi` after this many milliseconds, `0` disables the timeout
+     */
+    timeout: number;
+    /**
+     * Retries of reads answered with 429 or 503, with exponential backoff honoring `Retry-After`
+     */
+    retry: number | false;
+    /**
+     * Base delay of the backoff in milliseconds
+     */
+    retryDelay: number;
+}
+
+export interface DirectusImageConfig {
+    /**
+     * Named transformations used with `<DirectusImage preset="...">` and the `@nuxt/image` provider
+     */
+    presets: Record<string, DirectusAssetTransform>;
+    /**
+     * Widths of the generated `srcset` when `sizes` is set
+     */
+    widths: number[];
+}
+
+export interface DirectusOfflineConfig {
+    /**
+     * Queue `createOne`, `updateOne` and `deleteOne` calls that fail without network in IndexedDB
+     * and replay them when the browser is back online or the WebSocket reconnects
+     */
+    enabled: boolean;
+    /**
+     * Timestamp field compared before replaying updates and deletes to detect conflicts
+     */
+    conflictField: string;
+}
+
+export interface DirectusPreviewConfig {
+    /**
+     * Register the preview routes; the secret is read from `runtimeConfig.directus.previewSecret` and item reads
+     * during preview use the read-only token `runtimeConfig.directus.previewToken`
+     */
+    enabled: boolean;
+    /**
+     * Route turning preview on (`?secret=&version=&redirect=`), `${route}/exit` turns it off
+     */
+    route: string;
+    /**
+     * Content version read while preview is on, unless the preview URL passes `version`
+     */
+    version: string;
+    /**
+     * Field of the status filters widened to `statuses` while preview is on
+     */
+    statusField: string;
+    statuses: string[];
+    /**
+     * Lifetime of the preview cookie in seconds
+     */
+    maxAge: number;
+    /**
+     * Origin of the Directus app allowed to send live preview messages, defaults to the origin of `directusUrl`
+     */
+    origin?: string;
+}
+
+export interface DirectusFlowConfig {
+    /**
+     * Id of the flow
+     */
+    id: string;
+    /**
+     * Method of the webhook trigger, defaults to `POST`
+     */
+    method?: "GET" | "POST";
+}
+
+export interface DirectusInstanceConfig {
+    /**
+     * Directus URL of this instance
+     */
+    url: string;
+    /**
+     * WebSocket base URL, defaults to `url`
+     */
+    wsUrl?: string;
+    /**
+     * `cookie` (SDK cookie mode), `static` (read-only `token`) or `none` (public role only), defaults to `cookie`
+     */
+    authMode?: "cookie" | "static" | "none";
+    /**
+     * Read-only token used in `static` mode, kept in the private runtime config.
+     * Browser requests go through the proxy route `${proxy.path}-${name}`, which adds it to reads.
+     */
+    token?: string;
+    /**
+     * Connect the WebSocket for realtime subscriptions, defaults to `true`
+     */
+    realtime?: boolean;
+}
+
 export interface ModuleOptions {
     enableGlobalMiddleware: boolean;
+    /**
+     * Log failed requests of the composables to the console, defaults to `true` in development only.
+     * Errors are thrown as `DirectusApiError` either way.
+     */
+    logErrors?: boolean;
     auth: DirectusAuthConfig;
     types: DirectusTypesConfig;
+    proxy: DirectusProxyConfig;
+    cache: DirectusCacheConfig;
+    request: DirectusRequestConfig;
+    image: DirectusImageConfig;
+    offline: DirectusOfflineConfig;
+    preview: DirectusPreviewConfig;
+    /**
+     * Aliases of flows triggered with `useDirectusFlows().trigger(alias)`, mapped to the flow id
+     */
+    flows: Record<string, string | DirectusFlowConfig>;
+    /**
+     * Additional named Directus instances, selected with e.g. `useDirectusApi("cms")`.
+     * The top-level configuration stays the `default` instance.
+     */
+    instances: Record<string, DirectusInstanceConfig>;
 }
 
 export default defineNuxtModule<ModuleOptions>({
@@ -37,12 +207,27 @@ export default defineNuxtModule<ModuleOptions>({
         name: "@michael-nussbaumer/nuxt-directus",
         configKey: "directus",
         compatibility: {
-            nuxt: "^3.0.0 || ^4.0.0",
+            nuxt: "^3.17.0 || ^4.0.0",
         },
     },
+    // Register the `nuxtDirectus` image provider as default options of @nuxt/image, whatever the order of the modules
+    moduleDependencies: (nuxt): ModuleDependencies =>
+        hasNuxtModule("@nuxt/image", nuxt)
+            ? {
+                  "@nuxt/image": {
+                      optional: true,
+                      defaults: {
+                          providers: {
+                              nuxtDirectus: { provider: createResolver(import.meta.url).resolve("./runtime/image/provider") },
+                          },
+                      },
+                  },
+              }
+            : {},
     defaults: {
         enableGlobalMiddleware: true,
         auth: {
+            mode: "cookie",
             loginPath: "/auth/login",
             registerPath: "/auth/register",
             afterLoginPath: "/",
@@ -51,20 +236,113 @@ export default defineNuxtModule<ModuleOptions>({
                 enabled: false,
                 field: "role",
             },
+            session: {
+                enabled: false,
+                routePrefix: "/api/_directus/auth",
+            },
         },
         types: {
             enabled: false,
             output: "./schema/schema.d.ts",
             authHeaderEnv: "DIRECTUS_OPENAPI_TOKEN",
         },
+        proxy: {
+            enabled: false,
+            path: "/api/_directus",
+        },
+        cache: {
+            enabled: false,
+            ttl: 60_000,
+        },
+        request: {
+            timeout: 30_000,
+            retry: 2,
+            retryDelay: 500,
+        },
+        image: {
+            presets: {},
+            widths: [320, 640, 768, 1024, 1280, 1536, 1920],
+        },
+        offline: {
+            enabled: false,
+            conflictField: "date_updated",
+        },
+        preview: {
+            enabled: false,
+            route: "/api/_directus/preview",
+            version: "draft",
+            statusField: "status",
+            statuses: ["draft", "published"],
+            maxAge: 60 * 60,
+        },
+        flows: {},
+        instances: {},
     },
     async setup(options, nuxt) {
         const resolver = createResolver(import.meta.url);
+        const logger = useLogger("nuxt-directus");
+
+        // The browser cannot attach httpOnly session tokens to Directus requests, only the proxy can
+        if (options.auth.mode === "cookie" && options.auth.session?.enabled && !options.proxy.enabled) {
+            logger.info("Session mode is enabled, enabling the proxy so browser requests are authenticated");
+            options.proxy.enabled = true;
+        }
+
+        // The static token stays on the server, the proxy adds it to browser reads
+        if (options.auth.mode === "static" && !options.proxy.enabled) {
+            logger.info("Auth mode is `static`, enabling the proxy so the token stays on the server");
+            options.proxy.enabled = true;
+        }
+
+        // Drafts are read with the preview token, which the proxy adds to the browser's reads while preview is on
+        if (options.preview.enabled && !options.proxy.enabled) {
+            logger.info("Preview is enabled, enabling the proxy so browser reads use the preview token");
+            options.proxy.enabled = true;
+        }
+
+        // Public runtime config is shipped to every browser, so a static token configured there is moved
+        const publicToken = (nuxt.options.runtimeConfig.public as { directusToken?: string }).directusToken;
+        if (publicToken !== undefined) {
+            if (publicToken) {
+                logger.warn("`runtimeConfig.public.directusToken` is sent to the browser, moved it to `runtimeConfig.directus.staticToken` (`NUXT_DIRECTUS_STATIC_TOKEN`)");
+            }
+            delete (nuxt.options.runtimeConfig.public as { directusToken?: string }).directusToken;
+        }
+
+        // Tokens of named instances stay in the private runtime config, the browser reaches static instances through a proxy route
+        const publicInstances: Record<string, Omit<DirectusInstanceConfig, "token">> = {};
+        const instanceTokens: Record<string, { token: string }> = {};
+
+        for (const [name, { token, ...instance }] of Object.entries(options.instances)) {
+            publicInstances[name] = instance;
+            // An empty entry lets `NUXT_DIRECTUS_INSTANCES_<NAME>_TOKEN` set the token at runtime
+            if (token || instance.authMode === "static") instanceTokens[name] = { token: token || "" };
+        }
 
         // Merge module options with Nuxt runtime config
         nuxt.options.runtimeConfig.public.directus = defu(nuxt.options.runtimeConfig.public.directus as any, {
             enableGlobalMiddleware: options.enableGlobalMiddleware,
+            logErrors: options.logErrors,
             auth: options.auth,
+            proxy: options.proxy,
+            cache: options.cache,
+            request: options.request,
+            image: options.image,
+            offline: options.offline,
+            preview: options.preview,
+            flows: options.flows,
+            instances: publicInstances,
+        });
+
+        // Private Directus URL and admin token used by the server (proxy, session routes, SSR, server utils),
+        // the read-only token of `static` mode, the secret of the preview URL, the token of preview reads and the tokens of named instances
+        nuxt.options.runtimeConfig.directus = defu(nuxt.options.runtimeConfig.directus as any, {
+            url: "",
+            token: "",
+            staticToken: publicToken || "",
+            previewSecret: "",
+            previewToken: "",
+            instances: instanceTokens,
         });
 
         // Add runtime directory
@@ -73,19 +351,117 @@ export default defineNuxtModule<ModuleOptions>({
         // Add composables
         addImportsDir(resolver.resolve("./runtime/composables"));
 
-        // Always add the auth middleware (it will check enableGlobalMiddleware internally)
-        addRouteMiddleware({
-            name: "directus-auth",
-            path: resolver.resolve("./runtime/middleware/directus-auth"),
-            global: true,
+        // Add the <DirectusImage> component
+        addComponent({
+            name: "DirectusImage",
+            filePath: resolver.resolve("./runtime/components/DirectusImage"),
         });
 
+        // Add Nitro server utilities (useDirectusServer, useDirectusAdmin, requireDirectusUser, ...)
+        addServerImportsDir(resolver.resolve("./runtime/server/utils"));
+
+        // Add the auth middleware unless there are no user sessions (it will check enableGlobalMiddleware internally)
+        if (options.auth.mode === "cookie") {
+            addRouteMiddleware({
+                name: "directus-auth",
+                path: resolver.resolve("./runtime/middleware/directus-auth"),
+                global: true,
+            });
+        }
+
         // Add runtime plugin for Directus client
         addPlugin(resolver.resolve("./runtime/directus"));
 
+        // Add Nitro routes keeping the session in httpOnly cookies
+        const session = options.auth.session;
+        if (session?.enabled && options.auth.mode === "cookie") {
+            for (const [route, method] of [
+                ["login", "post"],
+                ["logout", "post"],
+                ["refresh", "post"],
+                ["me", "get"],
+            ] as const) {
+                addServerHandler({
+                    route: `${session.routePrefix}/${route}`,
+                    method,
+                    handler: resolver.resolve(`./runtime/server/api/auth/${route}.${method}`),
+                });
+            }
+        }
+
+        // Add Nitro route forwarding REST requests to Directus
+        if (options.proxy.enabled) {
+            addServerHandler({
+                route: `${options.proxy.path}/**`,
+                handler: resolver.resolve("./runtime/server/api/proxy"),
+            });
+        }
+
+        // Named static instances are proxied at `${path}-${name}`, where the server adds their token
+        for (const [name, instance] of Object.entries(options.instances)) {
+            if (instance.authMode !== "static") continue;
+
+            addServerHandler({
+                route: `${options.proxy.path}-${name}/**`,
+                handler: resolver.resolve("./runtime/server/api/proxy"),
+            });
+        }
+
+        // Add Nitro routes turning draft preview on and off, and the bridge to the Directus live preview panel
+        if (options.preview.enabled) {
+            addPlugin({ src: resolver.resolve("./runtime/live-preview.client"), mode: "client" });
+
+            addServerHandler({
+                route: options.preview.route,
+                method: "get",
+                handler: resolver.resolve("./runtime/server/api/preview/enter.get"),
+            });
+            addServerHandler({
+                route: `${options.preview.route}/exit`,
+                method: "get",
+                handler: resolver.resolve("./runtime/server/api/preview/exit.get"),
+            });
+        }
+
+        // Generate schema types from the Directus OpenAPI spec (runs for prepare, dev and build)
+        const typesOutput = resolve(nuxt.options.rootDir, options.types.output);
+
+        if (options.types.enabled) {
+            nuxt.options.alias["#directus-types"] = typesOutput;
+
+            await generateDirectusTypes(options.types, {
+                rootDir: nuxt.options.rootDir,
+                tmpDir: join(nuxt.options.buildDir, "directus"),
+                logger,
+            });
+        }
+
         // Add TypeScript type declarations
         nuxt.hook("prepare:types", ({ references }) => {
             references.push({ path: resolver.resolve("./runtime/types") });
+
+            if (options.types.enabled && existsSync(typesOutput)) {
+                references.push({ path: typesOutput });
+            }
         });
+
+        // Plug the generated collections into the `DirectusSchema` interface
+        if (options.types.enabled && existsSync(typesOutput)) {
+            addTypeTemplate({
+                filename: "types/directus-schema.d.ts",
+                getContents: () =>
+                    [
+                        `import type { paths } from ${JSON.stringify(typesOutput.replace(/\.d\.ts$/, ""))};`,
+                        `import type { SchemaFromPaths } from "#directus/types";`,
+                        ``,
+                        `declare module "#directus/types" {`,
+                        `    interface DirectusSchema extends SchemaFromPaths<paths> {}`,
+                        `}`,
+                        ``,
+                        `export {};`,
+                        ``,
+                    ].join("\n"),
+            });
+        }
     },
 });
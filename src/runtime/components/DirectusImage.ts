@@ -0,0 +1,134 @@
+import { computed, defineComponent, h, watch, type PropType } from "vue";
+import { useRuntimeConfig } from "#app";
+import { buildAssetUrl, type DirectusAssetTransform } from "../utils/assets";
+import { getDirectusInstance } from "../utils/instances";
+
+/**
+ * The fields of a `directus_files` item the component reads
+ */
+export interface DirectusImageFile {
+    id: string;
+    width?: number | null;
+    height?: number | null;
+    description?: string | null;
+    title?: string | null;
+}
+
+/**
+ * `<img>` of a Directus file with transformations and a responsive `srcset`
+ */
+export default defineComponent({
+    name: "DirectusImage",
+    props: {
+        /**
+         * File id or file object (`id`, `width`, `height`, `description`)
+         */
+        src: { type: [String, Object] as PropType<string | DirectusImageFile>, required: true },
+        width: { type: [Number, String], default: undefined },
+        height: { type: [Number, String], default: undefined },
+        fit: { type: String as PropType<DirectusAssetTransform["fit"]>, default: undefined },
+        format: { type: String as PropType<DirectusAssetTransform["format"]>, default: undefined },
+        quality: { type: [Number, String], default: undefined },
+        /**
+         * Preset from the `image.presets` module option
+         */
+        preset: { type: String, default: undefined },
+        /**
+         * Key of a storage asset preset configured in Directus (`key` is reserved by Vue)
+         */
+        assetKey: { type: String, default: undefined },
+        /**
+         * `sizes` attribute; when set, `srcset` lists the configured widths instead of 1x/2x
+         */
+        sizes: { type: String, default: undefined },
+        widths: { type: Array as PropType<number[]>, default: undefined },
+        alt: { type: String, default: undefined },
+        loading: { type: String as PropType<"lazy" | "eager">, default: "lazy" },
+        instance: { type: String, default: undefined },
+        /**
+         * Add the user's access token to the URLs, for files that are not public
+         */
+        accessToken: { type: Boolean, default: false },
+    },
+    setup(props) {
+        const imageConfig = useRuntimeConfig().public.directus?.image;
+        const { publicUrl, auth } = getDirectusInstance(props.instance);
+
+        const file = computed<DirectusImageFile>(() => (typeof props.src === "string" ? { id: props.src } : props.src));
+
+        // Reported when the preset is set, not on every evaluation of the transform
+        if (import.meta.dev) {
+            watch(
+                () => props.preset,
+                (preset) => {
+                    if (preset && !imageConfig?.presets?.[preset]) {
+                        console.warn(`[Directus] Unknown image preset "${preset}"`);
+                    }
+                },
+                { immediate: true },
+            );
+        }
+
+        // Props override the preset
+        const transform = computed<DirectusAssetTransform>(() => {
+            const preset = props.preset ? imageConfig?.presets?.[props.preset] : undefined;
+
+            return {
+                ...preset,
+                ...(props.assetKey ? { key: props.assetKey } : {}),
+                ...(props.width ? { width: Number(props.width) } : {}),
+                ...(props.height ? { height: Number(props.height) } : {}),
+                ...(props.fit ? { fit: props.fit } : {}),
+                ...(props.format ? { format: props.format } : {}),
+                ...(props.quality ? { quality: Number(props.quality) } : {}),
+            };
+        });
+
+        const url = (width?: number) => {
+            const { width: baseWidth, height } = transform.value;
+            // Keep the aspect ratio of an explicit width and height
+            const scaledHeight = width && baseWidth && height ? (height * width) / baseWidth : height;
+
+            return buildAssetUrl(publicUrl, file.value.id, { ...transform.value, width: width ?? baseWidth, height: scaledHeight, accessToken: props.accessToken }, auth.getAccessToken());
+        };
+
+        // Rendered size: the transform, or the file's own dimensions scaled to it
+        const dimensions = computed(() => {
+            const { width, height } = transform.value;
+            const { width: fileWidth, height: fileHeight } = file.value;
+            const ratio = fileWidth && fileHeight ? fileHeight / fileWidth : null;
+
+            if (width && height) return { width, height };
+            if (width) return { width, height: ratio ? Math.round(width * ratio) : undefined };
+            if (height) return { width: ratio ? Math.round(height / ratio) : undefined, height };
+            return { width: fileWidth ?? undefined, height: fileHeight ?? undefined };
+        });
+
+        const srcset = computed(() => {
+            // Directus does not enlarge images, larger widths would only repeat the original
+            const maxWidth = file.value.width ?? Infinity;
+
+            if (props.sizes) {
+                const widths = (props.widths ?? imageConfig?.widths ?? []).filter((width) => width <= maxWidth);
+                if (!widths.length) return undefined;
+                return widths.map((width) => `${url(width)} ${width}w`).join(", ");
+            }
+
+            const width = transform.value.width;
+            if (!width || width * 2 > maxWidth) return undefined;
+            return `${url(width)} 1x, ${url(width * 2)} 2x`;
+        });
+
+        return () =>
+            h("img", {
+                src: url(),
+                srcset: srcset.value,
+                sizes: srcset.value ? props.sizes : undefined,
+                width: dimensions.value.width,
+                height: dimensions.value.height,
+                alt: props.alt ?? file.value.description ?? file.value.title ?? "",
+                loading: props.loading,
+                decoding: "async",
+            });
+    },
+});
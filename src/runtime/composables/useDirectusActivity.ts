@@ -0,0 +1,319 @@
+import { onMounted, ref, toValue, watch, type MaybeRefOrGetter } from "vue";
+import { createComment, readActivities, readComments, readFieldsByCollection, readRevision, readRevisions, type DirectusActivity, type DirectusComment, type DirectusRevision, type Query } from "@directus/sdk";
+import type { DirectusCollections, DirectusNuxtClient, ResolvedDirectusSchema } from "../types";
+import { createErrorHandler } from "../utils/errors";
+import { DEFAULT_INSTANCE, getDirectusInstance } from "../utils/instances";
+import { stableStringify } from "../utils/keys";
+import { useDirectusApi } from "./useDirectusApi";
+import { useDirectusRealtime } from "./useDirectusRealtime";
+
+type Schema = ResolvedDirectusSchema;
+type DirectusCommentItem = DirectusComment<Schema>;
+type DirectusActivityItem = DirectusActivity<Schema>;
+type DirectusRevisionItem = DirectusRevision<Schema>;
+
+/**
+ * An item of a collection, or a user whose comments and activity are shown
+ */
+export type DirectusActivityTarget = { collection: DirectusCollections; item: string | number } | { user: string };
+
+export interface DirectusActivityOptions {
+    instance?: string;
+    /**
+     * Entries loaded per list
+     * @default 50
+     */
+    limit?: number;
+    /**
+     * Primary key field of the collection, used to follow changes of the item and to restore revisions
+     * @default "id"
+     */
+    primaryKey?: string;
+    fields?: {
+        comments?: Query<Schema, DirectusCommentItem>["fields"];
+        activity?: Query<Schema, DirectusActivityItem>["fields"];
+        revisions?: Query<Schema, DirectusRevisionItem>["fields"];
+    };
+}
+
+/**
+ * Field whose value differs between two revisions
+ */
+export interface DirectusRevisionChange {
+    field: string;
+    from: unknown;
+    to: unknown;
+}
+
+interface ActivitySubscriptionMessage {
+    type: "subscription";
+    event: "init" | "create" | "update" | "delete";
+    data: unknown[];
+}
+
+type ListEntry = { id: string | number };
+
+// Fields filled in by Directus, or whose stored value cannot be written back as is
+const READ_ONLY_SPECIALS = ["date-created", "date-updated", "user-created", "user-updated", "hash", "conceal"];
+
+const isItemTarget = (target: DirectusActivityTarget): target is { collection: DirectusCollections; item: string | number } => "collection" in target;
+
+// Merge `create`, `update` and `delete` events into a list sorted newest first by `sortField`
+const applyEvent = <T extends ListEntry>(list: T[], message: ActivitySubscriptionMessage, sortField: keyof T, limit: number): T[] => {
+    if (message.type !== "subscription" || !Array.isArray(message.data) || message.event === "init") return list;
+
+    if (message.event === "delete") {
+        const deletedIds = new Set(message.data.map((id) => String(typeof id === "object" && id !== null ? (id as ListEntry).id : id)));
+        return list.filter((entry) => !deletedIds.has(String(entry.id)));
+    }
+
+    const current = list.slice();
+    for (const entry of message.data as T[]) {
+        const index = current.findIndex((existing) => String(existing.id) === String(entry.id));
+        if (index === -1) {
+            current.push(entry);
+        } else {
+            current[index] = { ...current[index], ...entry };
+        }
+    }
+
+    return current.sort((a, b) => String(b[sortField] ?? "").localeCompare(String(a[sortField] ?? ""))).slice(0, limit);
+};
+
+/**
+ * Compare the snapshots of two revisions field by field. Revisions without a snapshot are compared by their delta.
+ */
+export const diffRevisionData = (from: Pick<DirectusRevisionItem, "data" | "delta">, to: Pick<DirectusRevisionItem, "data" | "delta">): DirectusRevisionChange[] => {
+    const before = from.data ?? from.delta ?? {};
+    const after = to.data ?? to.delta ?? {};
+    const fields = [...new Set([...Object.keys(after), ...Object.keys(before)])];
+
+    return fields.filter((field) => stableStringify(before[field]) !== stableStringify(after[field])).map((field) => ({ field, from: before[field], to: after[field] }));
+};
+
+/**
+ * Comments, activity and revisions of an item, or the comments and activity of a user, kept live through
+ * realtime subscriptions. Revisions can be compared field by field and restored.
+ */
+export const useDirectusActivity = (target: MaybeRefOrGetter<DirectusActivityTarget | null | undefined>, options: DirectusActivityOptions = {}) => {
+    const { instance = DEFAULT_INSTANCE, limit = 50, primaryKey = "id", fields = {} } = options;
+    const client = getDirectusInstance(instance).client as DirectusNuxtClient;
+    const handleError = createErrorHandler("[Directus Activity]");
+    const { updateOne } = useDirectusApi(instance);
+    const { subscribe, unsubscribe, isConnected } = useDirectusRealtime(instance);
+
+    const comments = ref<DirectusCommentItem[]>([]);
+    const activity = ref<DirectusActivityItem[]>([]);
+    const revisions = ref<DirectusRevisionItem[]>([]);
+    const pending = ref(false);
+    const error = ref<Error | null>(null);
+
+    const commentFields = fields.comments ?? ["*"];
+    const activityFields = fields.activity ?? ["*"];
+    const revisionFields = fields.revisions ?? ["id", "activity", "collection", "item", "data", "delta", "parent", "version"];
+
+    const getFilters = (value: DirectusActivityTarget) =>
+        isItemTarget(value)
+            ? {
+                  comments: { collection: { _eq: value.collection }, item: { _eq: String(value.item) } },
+                  activity: { collection: { _eq: value.collection }, item: { _eq: String(value.item) } },
+              }
+            : {
+                  comments: { user_created: { _eq: value.user } },
+                  activity: { user: { _eq: value.user } },
+              };
+
+    const loadActivity = async (value: DirectusActivityTarget) => {
+        activity.value = (await client.request(readActivities({ fields: activityFields, filter: getFilters(value).activity, sort: ["-timestamp"], limit }))) as DirectusActivityItem[];
+    };
+
+    // Revisions belong to an item, a user target has none
+    const loadRevisions = async (value: DirectusActivityTarget) => {
+        revisions.value = isItemTarget(value)
+            ? ((await client.request(readRevisions({ fields: revisionFields, filter: getFilters(value).activity, sort: ["-id"], limit }))) as DirectusRevisionItem[])
+            : [];
+    };
+
+    /**
+     * Reload comments, activity and revisions
+     */
+    const refresh = async () => {
+        const value = toValue(target);
+
+        if (!value) {
+            comments.value = [];
+            activity.value = [];
+            revisions.value = [];
+            return;
+        }
+
+        pending.value = true;
+        error.value = null;
+
+        try {
+            const [items] = await Promise.all([
+                client.request(readComments({ fields: commentFields, filter: getFilters(value).comments, sort: ["-date_created"], limit })),
+                loadActivity(value),
+                loadRevisions(value),
+            ]);
+            comments.value = items as DirectusCommentItem[];
+        } catch (e) {
+            error.value = handleError(e, { collection: isItemTarget(value) ? value.collection : undefined, operation: "readActivity" }, "Error loading activity");
+        } finally {
+            pending.value = false;
+        }
+    };
+
+    /**
+     * Post a comment on the item
+     */
+    const postComment = async (comment: string) => {
+        const value = toValue(target);
+        if (!value || !isItemTarget(value)) {
+            throw new Error("[Directus Activity] Comments can only be posted on an item target");
+        }
+
+        try {
+            const result = (await client.request(createComment({ collection: value.collection, item: String(value.item), comment }))) as DirectusCommentItem;
+
+            // The realtime event may arrive first, merging by id keeps a single entry
+            comments.value = applyEvent(comments.value, { type: "subscription", event: "create", data: [result] }, "date_created", limit);
+            return result;
+        } catch (e) {
+            throw handleError(e, { collection: value.collection, operation: "postComment" }, `Error posting a comment on ${value.collection} ${value.item}`);
+        }
+    };
+
+    const getRevision = async (revision: number | DirectusRevisionItem) => {
+        if (typeof revision === "object") return revision;
+        return (await client.request(readRevision(revision, { fields: revisionFields }))) as DirectusRevisionItem;
+    };
+
+    /**
+     * Fields that changed between two revisions, by id or as loaded in `revisions`
+     */
+    const diffRevisions = async (from: number | DirectusRevisionItem, to: number | DirectusRevisionItem) => {
+        try {
+            const [fromRevision, toRevision] = await Promise.all([getRevision(from), getRevision(to)]);
+            return diffRevisionData(fromRevision, toRevision);
+        } catch (e) {
+            throw handleError(e, { operation: "diffRevisions" }, "Error comparing revisions");
+        }
+    };
+
+    // Writable fields of a collection: no alias fields (o2m, m2m, ...), generated columns or fields maintained by Directus
+    const getWritableFields = async (collection: DirectusCollections) => {
+        const collectionFields = await client.request(readFieldsByCollection(collection));
+
+        return new Set(
+            collectionFields
+                .filter(({ schema, meta }) => {
+                    if (!schema || schema.is_primary_key || schema.is_generated || meta?.readonly) return false;
+                    return !meta?.special?.some((special: string) => READ_ONLY_SPECIALS.includes(special));
+                })
+                .map(({ field }) => field),
+        );
+    };
+
+    /**
+     * Write an item back to its state after a revision, from the snapshot of the revision
+     */
+    const restoreRevision = async (revision: number | DirectusRevisionItem) => {
+        const value = toValue(target);
+        if (!value || !isItemTarget(value)) {
+            throw new Error("[Directus Activity] Revisions can only be restored on an item target");
+        }
+
+        let snapshot: DirectusRevisionItem;
+        let writableFields: Set<string>;
+
+        try {
+            [snapshot, writableFields] = await Promise.all([getRevision(revision), getWritableFields(value.collection)]);
+        } catch (e) {
+            throw handleError(e, { collection: value.collection, operation: "restoreRevision" }, `Error loading revision ${typeof revision === "object" ? revision.id : revision}`);
+        }
+
+        // A revision of another item would overwrite the target with unrelated data
+        if (String(snapshot.collection) !== value.collection || String(snapshot.item) !== String(value.item)) {
+            throw new Error(`[Directus Activity] Revision ${snapshot.id} does not belong to ${value.collection} ${value.item}`);
+        }
+
+        if (!snapshot.data) {
+            throw new Error(`[Directus Activity] Revision ${snapshot.id} has no snapshot to restore`);
+        }
+
+        // The delta only holds the fields changed by that revision, the snapshot holds the whole item
+        const data = Object.fromEntries(Object.entries(snapshot.data).filter(([field]) => field !== primaryKey && writableFields.has(field)));
+
+        // Through the API composable, so caches and data composables of the collection are refreshed
+        return updateOne(value.collection, value.item, data);
+    };
+
+    let subscriptionIds: string[] = [];
+
+    const stop = () => {
+        subscriptionIds.forEach((subscriptionId) => unsubscribe(subscriptionId));
+        subscriptionIds = [];
+    };
+
+    const onChange = (message: ActivitySubscriptionMessage) => {
+        if (message.type !== "subscription" || message.event === "init") return;
+
+        const value = toValue(target);
+        if (!value) return;
+
+        Promise.all([loadActivity(value), loadRevisions(value)]).catch((e) => console.error("[Directus Activity] Error reloading activity:", e));
+    };
+
+    const start = async () => {
+        stop();
+        await refresh();
+
+        const value = toValue(target);
+        if (!value) return;
+
+        const filters = getFilters(value);
+
+        try {
+            const handlers = await Promise.all([
+                subscribe<ActivitySubscriptionMessage>({ collection: "directus_comments", query: { fields: commentFields, filter: filters.comments } }, (message) => {
+                    comments.value = applyEvent(comments.value, message, "date_created", limit);
+                }),
+                // Directus writes activity and revisions alongside the item, so a change of the item reloads them
+                isItemTarget(value)
+                    ? subscribe<ActivitySubscriptionMessage>({ collection: value.collection, query: { fields: [primaryKey], filter: { [primaryKey]: { _eq: value.item } } } }, onChange)
+                    : subscribe<ActivitySubscriptionMessage>({ collection: "directus_activity", query: { fields: activityFields, filter: filters.activity } }, (message) => {
+                          activity.value = applyEvent(activity.value, message, "timestamp", limit);
+                      }),
+            ]);
+            subscriptionIds = handlers.map((handler) => handler.uid);
+        } catch (e) {
+            console.error("[Directus Realtime] Activity is not updated:", e);
+        }
+    };
+
+    if (import.meta.client) {
+        onMounted(start);
+
+        watch(() => stableStringify(toValue(target)), start);
+
+        // Events sent while the connection was down are lost, so reload after a reconnect
+        watch(isConnected, (connected, wasConnected) => {
+            if (connected && wasConnected === false && subscriptionIds.length) {
+                refresh();
+            }
+        });
+    }
+
+    return {
+        comments,
+        activity,
+        revisions,
+        pending,
+        error,
+        refresh,
+        postComment,
+        diffRevisions,
+        restoreRevision,
+    };
+};
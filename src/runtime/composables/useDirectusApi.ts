@@ -1,115 +1,448 @@
-import { useNuxtApp } from "#app";
-import { readItems, readItem, createItem, createItems, updateItem, updateItems, deleteItem, deleteItems, type DirectusClient, type Query } from "@directus/sdk";
+import {
+    readItems,
+    readItem,
+    readSingleton,
+    createItem,
+    createItems,
+    updateItem,
+    updateItems,
+    updateSingleton as updateSingletonItem,
+    deleteItem,
+    deleteItems,
+    aggregate as aggregateItems,
+    withToken,
+    type AggregationOptions,
+    type AggregationOutput,
+    type HttpMethod,
+    type NestedPartial,
+    type Query,
+    type QueryItem,
+    type RestCommand,
+} from "@directus/sdk";
+import { useRuntimeConfig } from "#app";
+import type { DirectusCollectionItem, DirectusCollections, DirectusNuxtClient, DirectusSingletons, ResolvedDirectusSchema } from "../types";
+import { getDirectusCache } from "../utils/cache";
+import { DIRECTUS_OPERATION } from "../utils/hooks";
+import { DEFAULT_INSTANCE, getDirectusInstance } from "../utils/instances";
+import { getDirectusDataKey } from "../utils/keys";
+import { createErrorHandler, DirectusOfflineError, DirectusOptimisticError, type DirectusApiError } from "../utils/errors";
+import { isNetworkError, type DirectusQueueInput } from "../utils/offline";
+import { createOptimisticChanges, findDirectusItem } from "../utils/optimistic";
+import { usePreviewQuery } from "../utils/preview";
+import { combineSignals, runDirectusRequest, useComponentAbortSignal, withRequestInit, type DirectusRequestOptions } from "../utils/request";
 
-export const useDirectusApi = () => {
-    const { $directus } = useNuxtApp();
-    const client = $directus as DirectusClient<any>;
+export { DirectusApiError, DirectusOfflineError, DirectusOptimisticError, isDirectusError } from "../utils/errors";
+export type { DirectusRequestOptions } from "../utils/request";
+
+type Schema = ResolvedDirectusSchema;
+
+type AggregateFields<Collection extends DirectusCollections> = AggregationOptions<Schema, Collection>["aggregate"];
+type AggregateGroupBy<Collection extends DirectusCollections> = NonNullable<AggregationOptions<Schema, Collection>["groupBy"]>;
+type AggregateQuery<Collection extends DirectusCollections> = NonNullable<AggregationOptions<Schema, Collection>["query"]>;
+
+/**
+ * Grouping and query of an aggregation, `fields`, `deep` and `alias` are not supported by Directus
+ */
+export type DirectusAggregateOptions<Collection extends DirectusCollections, TGroupBy> = NonNullable<AggregationOptions<Schema, Collection>["query"]> & {
+    groupBy?: TGroupBy;
+};
+
+export interface DirectusApiOptions {
+    /**
+     * Cache read results per collection and query, overrides the `cache` module option.
+     * Pass `{ ttl }` to enable it with a custom lifetime in milliseconds.
+     */
+    cache?: boolean | { ttl?: number };
+    /**
+     * Apply `createOne`, `updateOne` and `deleteOne` to the lists of the data composables
+     * (`useDirectusItems`, `useDirectusItem`, `useDirectusPagination`) before the server answers.
+     * Failed changes are rolled back and rethrown as `DirectusOptimisticError`.
+     */
+    optimistic?: boolean;
+    /**
+     * Primary key field used to match optimistic changes with list items
+     * @default "id"
+     */
+    primaryKey?: string;
+    /**
+     * Queue `createOne`, `updateOne` and `deleteOne` calls that fail without network, overrides the `offline` module option.
+     * Queued calls throw `DirectusOfflineError` and keep their optimistic change.
+     */
+    offline?: boolean;
+}
+
+/**
+ * CRUD helpers for a Directus instance (the default instance when no name is given)
+ */
+export const useDirectusApi = (instance: string = DEFAULT_INSTANCE, options: DirectusApiOptions = {}) => {
+    const { client: $directus, offline: offlineQueue } = getDirectusInstance(instance);
+    const client = $directus as DirectusNuxtClient;
+    const handleError = createErrorHandler("[Directus API]");
+
+    // Reads are cached and deduplicated only when enabled, mutations always invalidate their collection
+    const cacheConfig = useRuntimeConfig().public.directus?.cache;
+    const isCacheEnabled = typeof options.cache === "object" || (options.cache ?? !!cacheConfig?.enabled);
+    const cacheTtl = (typeof options.cache === "object" ? options.cache.ttl : undefined) ?? cacheConfig?.ttl ?? 60_000;
+    const { cached, invalidate, invalidateAll } = getDirectusCache(instance);
+
+    const primaryKey = options.primaryKey || "id";
+    const optimisticChanges = (collection: string) => (options.optimistic ? createOptimisticChanges(instance, collection, primaryKey) : null);
+
+
+    // Mutations that cannot reach Directus wait in the offline queue instead of being lost
+    const offlineConfig = useRuntimeConfig().public.directus?.offline;
+    const isOfflineEnabled = import.meta.client && (options.offline ?? !!offlineConfig?.enabled);
+    const conflictField = offlineConfig?.conflictField || "date_updated";
+
+    // Timestamp of the version the change is based on, from the data or the lists of the data composables
+    const getBaseline = (collection: string, id: string | number, data?: Record<string, unknown>) => {
+        if (!isOfflineEnabled) return null;
+
+        const value = data?.[conflictField] ?? findDirectusItem(instance, collection, primaryKey, id)?.[conflictField];
+        return typeof value === "string" ? value : null;
+    };
+
+    const queueMutation = async (input: Omit<DirectusQueueInput, "primaryKey">, error?: DirectusApiError) => {
+        const mutation = await offlineQueue.enqueue({ ...input, primaryKey });
+
+        // Queued behind earlier mutations while online, send them right away
+        if (!error && offlineQueue.isOnline.value) {
+            offlineQueue.replay();
+        }
+
+        return new DirectusOfflineError(mutation, error);
+    };
+
+    // While draft preview is on, the default instance reads draft statuses and the preview content version
+    const preview = instance === DEFAULT_INSTANCE ? usePreviewQuery() : null;
+
+    // Drafts are read with the preview token: on the server here, in the browser by the proxy
+    const previewToken = import.meta.server ? useRuntimeConfig().directus?.previewToken : undefined;
+    const asPreview = <Output>(command: RestCommand<Output, Schema>) => (previewToken && preview?.version.value ? withToken(previewToken, command) : command);
+
+    // Items without the preview version are read from the main version
+    const readVersioned = async <T>(query: unknown, read: (query: any) => Promise<T>) => {
+        const versioned = preview ? preview.withVersion(query) : query;
+        if (versioned === query) return read(query);
+
+        try {
+            return await read(versioned);
+        } catch (error: any) {
+            const status = error?.response?.status;
+            if (status !== 403 && status !== 404) throw error;
+            return read(preview!.withStatuses(query));
+        }
+    };
+
+    // Timeout and retry defaults from the `request` module option, overridden per call
+    const requestDefaults = useRuntimeConfig().public.directus?.request;
+
+    // The operation name is handed to the `directus:*` hooks through the request options
+    const send = <Output>(operation: string, command: RestCommand<Output, Schema>, requestOptions: DirectusRequestOptions = {}, idempotent = false) =>
+        runDirectusRequest((signal) => client.request(withRequestInit(command, { signal, [DIRECTUS_OPERATION]: operation } as RequestInit)), {
+            ...requestDefaults,
+            ...requestOptions,
+            idempotent,
+        });
+
+    // Reads started by a component are aborted when it unmounts or the route changes
+    const getComponentSignal = useComponentAbortSignal();
+
+    // A shared read is aborted only when every caller waiting for it was aborted
+    const cachedRead = <T>(
+        collection: string,
+        id: string | number | undefined,
+        query: unknown,
+        requestOptions: DirectusRequestOptions = {},
+        request: (requestOptions: DirectusRequestOptions) => Promise<T>,
+    ) => {
+        const signal = combineSignals(requestOptions.signal, getComponentSignal());
+        return isCacheEnabled
+            ? cached(collection, getDirectusDataKey(instance, collection, id, query), cacheTtl, (shared) => request({ ...requestOptions, signal: shared }), signal)
+            : request({ ...requestOptions, signal });
+    };
 
     /**
      * Read multiple items from a collection
      */
-    const getItems = async <T = any>(collection: string, query?: Query<any, T>) => {
+    const getItems = async <Collection extends DirectusCollections, const TQuery extends Query<Schema, DirectusCollectionItem<Collection>>>(
+        collection: Collection,
+        query?: TQuery,
+        requestOptions?: DirectusRequestOptions,
+    ) => {
         try {
-            return await client.request(readItems(collection, query));
+            const previewQuery = preview ? preview.withStatuses(query) : query;
+            return await cachedRead(collection, undefined, previewQuery, requestOptions, (readOptions) =>
+                send("getItems", asPreview(readItems(collection, previewQuery)), readOptions, true),
+            );
         } catch (error) {
-            console.error(`[Directus API] Error reading items from ${collection}:`, error);
-            throw error;
+            throw handleError(error, { collection, operation: "getItems" }, `Error reading items from ${collection}`);
         }
     };
 
     /**
      * Read a single item from a collection
      */
-    const getItem = async <T = any>(collection: string, id: string | number, query?: Query<any, T>) => {
+    const getItem = async <Collection extends DirectusCollections, const TQuery extends QueryItem<Schema, DirectusCollectionItem<Collection>>>(
+        collection: Collection,
+        id: string | number,
+        query?: TQuery,
+        requestOptions?: DirectusRequestOptions,
+    ) => {
         try {
-            return await client.request(readItem(collection, id, query));
+            return await cachedRead(collection, id, preview ? preview.withVersion(query) : query, requestOptions, (readOptions) =>
+                readVersioned(query, (versionQuery: TQuery) => send("getItem", asPreview(readItem(collection, id, versionQuery)), readOptions, true)),
+            );
         } catch (error) {
-            console.error(`[Directus API] Error reading item ${id} from ${collection}:`, error);
-            throw error;
+            throw handleError(error, { collection, operation: "getItem" }, `Error reading item ${id} from ${collection}`);
         }
     };
 
     /**
      * Create a single item in a collection
      */
-    const createOne = async <T = any>(collection: string, item: Partial<T>) => {
+    const createOne = async <Collection extends DirectusCollections, const TQuery extends Query<Schema, Schema[Collection]>>(
+        collection: Collection,
+        item: NestedPartial<DirectusCollectionItem<Collection>>,
+        query?: TQuery,
+        requestOptions?: DirectusRequestOptions,
+    ) => {
+        const change = optimisticChanges(collection)?.create(item as Record<string, unknown>);
+        const queue = (error?: DirectusApiError) =>
+            queueMutation({ collection, operation: "createOne", itemId: change?.id, data: item, query, baseline: null }, error);
+
+        // Keep the order of the mutations already waiting in the offline queue
+        if (isOfflineEnabled && offlineQueue.isQueued(collection)) {
+            throw await queue();
+        }
+
         try {
-            return await client.request(createItem(collection, item));
+            const result = await send("createOne", createItem(collection, item, query), requestOptions);
+            change?.commit(result);
+            invalidate(collection);
+            return result;
         } catch (error) {
-            console.error(`[Directus API] Error creating item in ${collection}:`, error);
-            throw error;
+            const apiError = handleError(error, { collection, operation: "createOne" }, `Error creating item in ${collection}`);
+
+            if (isOfflineEnabled && isNetworkError(apiError)) {
+                throw await queue(apiError);
+            }
+
+            if (change) {
+                change.rollback();
+                throw new DirectusOptimisticError(apiError);
+            }
+            throw apiError;
         }
     };
 
     /**
      * Create multiple items in a collection
      */
-    const createMany = async <T = any>(collection: string, items: Partial<T>[]) => {
+    const createMany = async <Collection extends DirectusCollections, const TQuery extends Query<Schema, Schema[Collection]>>(
+        collection: Collection,
+        items: NestedPartial<DirectusCollectionItem<Collection>>[],
+        query?: TQuery,
+        requestOptions?: DirectusRequestOptions,
+    ) => {
         try {
-            return await client.request(createItems(collection, items));
+            const result = await send("createMany", createItems(collection, items, query), requestOptions);
+            invalidate(collection);
+            return result;
         } catch (error) {
-            console.error(`[Directus API] Error creating items in ${collection}:`, error);
-            throw error;
+            throw handleError(error, { collection, operation: "createMany" }, `Error creating items in ${collection}`);
         }
     };
 
     /**
      * Update a single item in a collection
      */
-    const updateOne = async <T = any>(collection: string, id: string | number, item: Partial<T>) => {
+    const updateOne = async <Collection extends DirectusCollections, const TQuery extends Query<Schema, Schema[Collection]>>(
+        collection: Collection,
+        id: string | number,
+        item: NestedPartial<DirectusCollectionItem<Collection>>,
+        query?: TQuery,
+        requestOptions?: DirectusRequestOptions,
+    ) => {
+        const baseline = getBaseline(collection, id, item as Record<string, unknown>);
+        const change = optimisticChanges(collection)?.update(id, item as Record<string, unknown>);
+        const queue = (error?: DirectusApiError) =>
+            queueMutation({ collection, operation: "updateOne", itemId: id, data: item, query, baseline }, error);
+
+        if (isOfflineEnabled && offlineQueue.isQueued(collection)) {
+            throw await queue();
+        }
+
         try {
-            return await client.request(updateItem(collection, id, item));
+            const result = await send("updateOne", updateItem(collection, id, item, query), requestOptions);
+            change?.commit(result);
+            invalidate(collection);
+            return result;
         } catch (error) {
-            console.error(`[Directus API] Error updating item ${id} in ${collection}:`, error);
-            throw error;
+            const apiError = handleError(error, { collection, operation: "updateOne" }, `Error updating item ${id} in ${collection}`);
+
+            if (isOfflineEnabled && isNetworkError(apiError)) {
+                throw await queue(apiError);
+            }
+
+            if (change) {
+                change.rollback();
+                throw new DirectusOptimisticError(apiError);
+            }
+            throw apiError;
         }
     };
 
     /**
      * Update multiple items in a collection
      */
-    const updateMany = async <T = any>(collection: string, ids: (string | number)[], data: Partial<T>) => {
+    const updateMany = async <Collection extends DirectusCollections, const TQuery extends Query<Schema, Schema[Collection]>>(
+        collection: Collection,
+        ids: string[] | number[],
+        data: NestedPartial<DirectusCollectionItem<Collection>>,
+        query?: TQuery,
+        requestOptions?: DirectusRequestOptions,
+    ) => {
         try {
-            return await client.request(updateItems(collection, ids, data));
+            const result = await send("updateMany", updateItems(collection, ids, data, query), requestOptions);
+            invalidate(collection);
+            return result;
         } catch (error) {
-            console.error(`[Directus API] Error updating items in ${collection}:`, error);
-            throw error;
+            throw handleError(error, { collection, operation: "updateMany" }, `Error updating items in ${collection}`);
         }
     };
 
     /**
      * Delete a single item from a collection
      */
-    const deleteOne = async (collection: string, id: string | number) => {
+    const deleteOne = async (collection: DirectusCollections, id: string | number, requestOptions?: DirectusRequestOptions) => {
+        const baseline = getBaseline(collection, id);
+        const change = optimisticChanges(collection)?.remove(id);
+        const queue = (error?: DirectusApiError) => queueMutation({ collection, operation: "deleteOne", itemId: id, baseline }, error);
+
+        if (isOfflineEnabled && offlineQueue.isQueued(collection)) {
+            throw await queue();
+        }
+
         try {
-            return await client.request(deleteItem(collection, id));
+            const result = await send("deleteOne", deleteItem(collection, id), requestOptions);
+            invalidate(collection);
+            return result;
         } catch (error) {
-            console.error(`[Directus API] Error deleting item ${id} from ${collection}:`, error);
-            throw error;
+            const apiError = handleError(error, { collection, operation: "deleteOne" }, `Error deleting item ${id} from ${collection}`);
+
+            if (isOfflineEnabled && isNetworkError(apiError)) {
+                throw await queue(apiError);
+            }
+
+            if (change) {
+                change.rollback();
+                throw new DirectusOptimisticError(apiError);
+            }
+            throw apiError;
         }
     };
 
     /**
      * Delete multiple items from a collection
      */
-    const deleteMany = async (collection: string, ids: (string | number)[]) => {
+    const deleteMany = async (collection: DirectusCollections, ids: string[] | number[], requestOptions?: DirectusRequestOptions) => {
+        try {
+            const result = await send("deleteMany", deleteItems(collection, ids), requestOptions);
+            invalidate(collection);
+            return result;
+        } catch (error) {
+            throw handleError(error, { collection, operation: "deleteMany" }, `Error deleting items from ${collection}`);
+        }
+    };
+
+    /**
+     * Read a singleton
+     */
+    const getSingleton = async <Collection extends DirectusSingletons, const TQuery extends QueryItem<Schema, Schema[Collection]>>(
+        collection: Collection,
+        query?: TQuery,
+        requestOptions?: DirectusRequestOptions,
+    ) => {
         try {
-            return await client.request(deleteItems(collection, ids));
+            return await cachedRead(collection, undefined, preview ? preview.withVersion(query) : query, requestOptions, (readOptions) =>
+                readVersioned(query, (versionQuery: TQuery) => send("getSingleton", asPreview(readSingleton(collection, versionQuery)), readOptions, true)),
+            );
         } catch (error) {
-            console.error(`[Directus API] Error deleting items from ${collection}:`, error);
-            throw error;
+            throw handleError(error, { collection, operation: "getSingleton" }, `Error reading singleton ${collection}`);
+        }
+    };
+
+    /**
+     * Update a singleton
+     */
+    const updateSingleton = async <Collection extends DirectusSingletons, const TQuery extends Query<Schema, Schema[Collection]>>(
+        collection: Collection,
+        item: NestedPartial<Schema[Collection]>,
+        query?: TQuery,
+        requestOptions?: DirectusRequestOptions,
+    ) => {
+        try {
+            const result = await send("updateSingleton", updateSingletonItem(collection, item, query), requestOptions);
+            invalidate(collection);
+            return result;
+        } catch (error) {
+            throw handleError(error, { collection, operation: "updateSingleton" }, `Error updating singleton ${collection}`);
+        }
+    };
+
+    /**
+     * Aggregate the items of a collection, e.g. `aggregate("orders", { count: "*", sum: ["total"] }, { groupBy: ["status"] })`
+     */
+    const aggregate = async <
+        Collection extends DirectusCollections,
+        const TAggregate extends AggregateFields<Collection>,
+        const TGroupBy extends AggregateGroupBy<Collection> | undefined = undefined,
+    >(
+        collection: Collection,
+        fields: TAggregate,
+        options: DirectusAggregateOptions<Collection, TGroupBy> = {},
+        requestOptions?: DirectusRequestOptions,
+    ): Promise<AggregationOutput<Schema, Collection, { aggregate: TAggregate; groupBy: TGroupBy }>> => {
+        const { groupBy, ...aggregateQuery } = options;
+        const query = preview ? preview.withStatuses(aggregateQuery) : aggregateQuery;
+
+        try {
+            return await cachedRead(collection, "aggregate", { fields, groupBy, query }, requestOptions, (readOptions) =>
+                send("aggregate", asPreview(aggregateItems<Schema, Collection, { aggregate: TAggregate; groupBy?: TGroupBy; query: AggregateQuery<Collection> }>(collection, { aggregate: fields, groupBy, query })), readOptions, true),
+            );
+        } catch (error) {
+            throw handleError(error, { collection, operation: "aggregate" }, `Error aggregating items of ${collection}`);
         }
     };
 
     /**
      * Make a custom request to the Directus API
      */
-    const customRequest = async <T = any>(path: string, options?: RequestInit) => {
+    const customRequest = async <T = any>(path: string, options: RequestInit & Omit<DirectusRequestOptions, "signal"> = {}) => {
+        const method = (options.method?.toUpperCase() || "GET") as HttpMethod;
+
+        // Only the options set by the caller, so the configured defaults apply to the others
+        const requestOptions: DirectusRequestOptions = {};
+        if (options.timeout !== undefined) requestOptions.timeout = options.timeout;
+        if (options.retry !== undefined) requestOptions.retry = options.retry;
+        if (options.retryDelay !== undefined) requestOptions.retryDelay = options.retryDelay;
+        if (options.signal) requestOptions.signal = options.signal;
+
         try {
-            return await client.request<T>(path, options);
+            return await send<T>(
+                "customRequest",
+                () => ({
+                    path,
+                    method,
+                    headers: options.headers as Record<string, string> | undefined,
+                    body: options.body as string | FormData | undefined,
+                }),
+                requestOptions,
+                method === "GET",
+            );
         } catch (error) {
-            console.error(`[Directus API] Error making custom request to ${path}:`, error);
-            throw error;
+            throw handleError(error, { operation: "customRequest" }, `Error making custom request to ${path}`);
         }
     };
 
@@ -130,9 +463,20 @@ export const useDirectusApi = () => {
         deleteOne,
         deleteMany,
 
+        // Singletons
+        getSingleton,
+        updateSingleton,
+
+        // Aggregation
+        aggregate,
+
         // Custom requests
         customRequest,
 
+        // Cache
+        invalidate,
+        invalidateAll,
+
         // Direct client access for advanced usage
         client,
     };
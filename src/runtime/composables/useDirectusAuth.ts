@@ -1,7 +1,11 @@
 import { ref, computed } from "vue";
-import { useNuxtApp, navigateTo, useRuntimeConfig, useCookie } from "#app";
+import { navigateTo, useRuntimeConfig, useCookie } from "#app";
 import { refresh, registerUser, registerUserVerify, passwordRequest, passwordReset, createDirectus, rest, updateMe } from "@directus/sdk";
-import type { DirectusClient, RestCommand } from "@directus/sdk";
+import type { RestCommand } from "@directus/sdk";
+import type { DirectusNuxtClient } from "../types";
+import { getUserRoles } from "../utils/roles";
+import { getDirectusInstance } from "../utils/instances";
+import { createErrorHandler, DirectusApiError } from "../utils/errors";
 
 export interface DirectusUser {
     id: string;
@@ -26,8 +30,11 @@ export interface RegisterData {
     [key: string]: any;
 }
 
-export const useDirectusAuth = () => {
-    const { $directus, $directusAuth, $directusWs } = useNuxtApp();
+/**
+ * Authentication for a Directus instance (the default instance when no name is given)
+ */
+export const useDirectusAuth = (instance?: string) => {
+    const { client: $directus, auth: $directusAuth, ws: $directusWs } = getDirectusInstance(instance);
     const config = useRuntimeConfig();
 
     // Use plugin's reactive state
@@ -36,16 +43,38 @@ export const useDirectusAuth = () => {
 
     const isLoading = ref(false);
     const error = ref<string | null>(null);
+    // Status, `extensions.code` and field errors of the last failure, `error` only holds its message
+    const errorDetails = ref<DirectusApiError | null>(null);
+
+    const handleError = createErrorHandler("[Directus Auth]");
+
+    const setError = (e: unknown, operation: string, fallbackMessage: string) => {
+        const apiError = handleError(e, { operation }, fallbackMessage);
+        error.value = apiError.message || fallbackMessage;
+        errorDetails.value = apiError;
+        return apiError;
+    };
+
+    // `static` and `none` instances have no user session to log in to
+    const assertCookieMode = (action: string) => {
+        if ($directusAuth.authMode !== "cookie") {
+            const message = `${action} is not available in "${$directusAuth.authMode}" auth mode`;
+            throw setError(new DirectusApiError(message, { status: null, errors: [], operation: action, cause: undefined }), action, message);
+        }
+    };
 
     /**
      * Login with email and password (and optional OTP for 2FA)
      */
     const login = async (credentials: LoginCredentials) => {
+        assertCookieMode("login");
+
         isLoading.value = true;
         error.value = null;
+        errorDetails.value = null;
 
         try {
-            const client = $directus as DirectusClient<any>;
+            const client = $directus as DirectusNuxtClient;
 
             // Authenticate with Directus (with OTP if provided)
             const loginData: any = {
@@ -55,7 +84,13 @@ export const useDirectusAuth = () => {
             if (credentials.otp) {
                 loginData.otp = credentials.otp;
             }
-            await client.login(loginData, { mode: "cookie" });
+
+            if ($directusAuth.isSessionMode) {
+                // Nitro route stores the tokens in httpOnly cookies
+                await $fetch($directusAuth.sessionRoute("login"), { method: "POST", body: loginData });
+            } else {
+                await client.login(loginData, { mode: "cookie" });
+            }
 
             // Update auth state
             await $directusAuth.checkAuthStatus();
@@ -79,9 +114,8 @@ export const useDirectusAuth = () => {
             await navigateTo(redirectTo);
 
             return user.value;
-        } catch (e: any) {
-            error.value = e.message || "Login failed";
-            throw e;
+        } catch (e) {
+            throw setError(e, "login", "Login failed");
         } finally {
             isLoading.value = false;
         }
@@ -91,32 +125,26 @@ export const useDirectusAuth = () => {
      * Logout the current user
      */
     const logout = async () => {
+        assertCookieMode("logout");
+
         isLoading.value = true;
         error.value = null;
+        errorDetails.value = null;
 
         try {
-            const client = $directus as DirectusClient<any>;
+            const client = $directus as DirectusNuxtClient;
             const refresh_token = $directusAuth.getRefreshToken();
 
-            if (refresh_token) {
+            if ($directusAuth.isSessionMode) {
+                await $fetch($directusAuth.sessionRoute("logout"), { method: "POST" });
+            } else if (refresh_token) {
                 await client.logout({ mode: "cookie", refresh_token });
             } else {
                 await client.logout({ mode: "cookie" });
             }
 
             // Clear cookies
-            const refreshTokenCookie = useCookie("directus_refresh_token", {
-                default: () => null,
-                secure: process.env.NODE_ENV === "production",
-                sameSite: process.env.NODE_ENV === "production" ? "strict" : "lax",
-                httpOnly: false,
-            });
-            refreshTokenCookie.value = null;
-
-            const dataCookie = useCookie("directus-data", {
-                default: () => null,
-            });
-            dataCookie.value = null;
+            $directusAuth.clearSession();
 
             // Update auth state
             await $directusAuth.checkAuthStatus();
@@ -124,14 +152,11 @@ export const useDirectusAuth = () => {
             // Navigate to after logout path
             const afterLogoutPath = config.public.directus?.auth?.afterLogoutPath || "/login";
             await navigateTo(afterLogoutPath);
-        } catch (e: any) {
-            error.value = e.message || "Logout failed";
+        } catch (e) {
+            setError(e, "logout", "Logout failed");
 
             // Clear local state even if server logout fails
-            const refreshTokenCookie = useCookie("directus_refresh_token");
-            refreshTokenCookie.value = null;
-            const dataCookie = useCookie("directus-data");
-            dataCookie.value = null;
+            $directusAuth.clearSession();
 
             await $directusAuth.checkAuthStatus();
 
@@ -148,9 +173,10 @@ export const useDirectusAuth = () => {
     const register = async (data: RegisterData) => {
         isLoading.value = true;
         error.value = null;
+        errorDetails.value = null;
 
         try {
-            const apiUrl = config.public.directusUrl;
+            const apiUrl = ($directus as DirectusNuxtClient).url.toString();
 
             const publicClient = createDirectus(apiUrl).with(rest());
 
@@ -167,9 +193,8 @@ export const useDirectusAuth = () => {
             );
 
             return true;
-        } catch (e: any) {
-            error.value = e.message || "Registration failed";
-            throw e;
+        } catch (e) {
+            throw setError(e, "register", "Registration failed");
         } finally {
             isLoading.value = false;
         }
@@ -181,9 +206,10 @@ export const useDirectusAuth = () => {
     const verifyEmail = async (token: string) => {
         isLoading.value = true;
         error.value = null;
+        errorDetails.value = null;
 
         try {
-            const apiUrl = config.public.directusUrl;
+            const apiUrl = ($directus as DirectusNuxtClient).url.toString();
 
             const publicClient = createDirectus(apiUrl).with(rest());
 
@@ -191,9 +217,8 @@ export const useDirectusAuth = () => {
             await publicClient.request(registerUserVerify(token));
 
             return true;
-        } catch (e: any) {
-            error.value = e.message || "Email verification failed";
-            throw e;
+        } catch (e) {
+            throw setError(e, "verifyEmail", "Email verification failed");
         } finally {
             isLoading.value = false;
         }
@@ -205,13 +230,13 @@ export const useDirectusAuth = () => {
     const fetchUser = async () => {
         isLoading.value = true;
         error.value = null;
+        errorDetails.value = null;
 
         try {
             await $directusAuth.checkAuthStatus();
             return user.value;
-        } catch (e: any) {
-            error.value = e.message || "Failed to fetch user";
-            throw e;
+        } catch (e) {
+            throw setError(e, "fetchUser", "Failed to fetch user");
         } finally {
             isLoading.value = false;
         }
@@ -223,9 +248,10 @@ export const useDirectusAuth = () => {
     const requestPasswordReset = async (email: string) => {
         isLoading.value = true;
         error.value = null;
+        errorDetails.value = null;
 
         try {
-            const apiUrl = config.public.directusUrl;
+            const apiUrl = ($directus as DirectusNuxtClient).url.toString();
 
             // Get the base URL for password reset email
             const resetUrl = config.public.directus?.auth?.resetPasswordUrl || `${window.location.origin}/auth/reset-password`;
@@ -236,9 +262,8 @@ export const useDirectusAuth = () => {
             await publicClient.request(passwordRequest(email, resetUrl));
 
             return true;
-        } catch (e: any) {
-            error.value = e.message || "Password reset request failed";
-            throw e;
+        } catch (e) {
+            throw setError(e, "requestPasswordReset", "Password reset request failed");
         } finally {
             isLoading.value = false;
         }
@@ -250,9 +275,10 @@ export const useDirectusAuth = () => {
     const resetPassword = async (token: string, password: string) => {
         isLoading.value = true;
         error.value = null;
+        errorDetails.value = null;
 
         try {
-            const apiUrl = config.public.directusUrl;
+            const apiUrl = ($directus as DirectusNuxtClient).url.toString();
 
             // Create a fresh client without authentication for public endpoint
             const publicClient = createDirectus(apiUrl).with(rest());
@@ -261,9 +287,8 @@ export const useDirectusAuth = () => {
             await publicClient.request(passwordReset(token, password));
 
             return true;
-        } catch (e: any) {
-            error.value = e.message || "Password reset failed";
-            throw e;
+        } catch (e) {
+            throw setError(e, "resetPassword", "Password reset failed");
         } finally {
             isLoading.value = false;
         }
@@ -273,25 +298,29 @@ export const useDirectusAuth = () => {
      * Refresh authentication token
      */
     const refreshToken = async () => {
+        assertCookieMode("refreshToken");
+
         isLoading.value = true;
         error.value = null;
+        errorDetails.value = null;
 
         try {
-            const client = $directus as DirectusClient<any>;
-            // SDK automatically handles refresh with stored tokens
-            await client.request(refresh({ mode: "cookie" }));
+            const client = $directus as DirectusNuxtClient;
+            if ($directusAuth.isSessionMode) {
+                await $fetch($directusAuth.sessionRoute("refresh"), { method: "POST" });
+            } else {
+                // SDK automatically handles refresh with stored tokens
+                await client.request(refresh({ mode: "cookie" }));
+            }
             await $directusAuth.checkAuthStatus();
             return true;
-        } catch (e: any) {
-            error.value = e.message || "Token refresh failed";
+        } catch (e) {
+            const apiError = setError(e, "refreshToken", "Token refresh failed");
 
             // Clear cookies on refresh failure
-            const refreshTokenCookie = useCookie("directus_refresh_token");
-            refreshTokenCookie.value = null;
-            const dataCookie = useCookie("directus-data");
-            dataCookie.value = null;
+            $directusAuth.clearSession();
 
-            throw e;
+            throw apiError;
         } finally {
             isLoading.value = false;
         }
@@ -306,34 +335,7 @@ export const useDirectusAuth = () => {
         const permissionsConfig = config.public.directus?.auth?.permissions;
         if (!permissionsConfig?.enabled) return [];
 
-        const roleField = permissionsConfig.field || "role";
-        let roleValue = user.value[roleField];
-
-        // Apply transform function if configured
-        if (permissionsConfig.transform && typeof permissionsConfig.transform === "function") {
-            try {
-                roleValue = permissionsConfig.transform(roleValue, user.value);
-            } catch (e) {
-                console.error("[useDirectusAuth] Error in transform function:", e);
-            }
-        }
-
-        // Normalize to array
-        let roles: string[];
-        if (Array.isArray(roleValue)) {
-            roles = roleValue;
-        } else if (roleValue != null) {
-            roles = [roleValue];
-        } else {
-            roles = [];
-        }
-
-        // Apply mapping if configured
-        if (permissionsConfig.mapping) {
-            roles = roles.map((role) => permissionsConfig.mapping![role] || role);
-        }
-
-        return roles;
+        return getUserRoles(user.value, permissionsConfig);
     });
 
     /**
@@ -386,9 +388,10 @@ export const useDirectusAuth = () => {
     const updatePassword = async (currentPassword: string, newPassword: string) => {
         isLoading.value = true;
         error.value = null;
+        errorDetails.value = null;
 
         try {
-            const client = $directus as DirectusClient<any>;
+            const client = $directus as DirectusNuxtClient;
 
             // Update password
             await client.request(
@@ -398,9 +401,8 @@ export const useDirectusAuth = () => {
             );
 
             return true;
-        } catch (e: any) {
-            error.value = e.message || "Password update failed";
-            throw e;
+        } catch (e) {
+            throw setError(e, "updatePassword", "Password update failed");
         } finally {
             isLoading.value = false;
         }
@@ -412,9 +414,10 @@ export const useDirectusAuth = () => {
     const generateTwoFactorSecret = async (password: string): Promise<{ secret: string; otpauth_url: string }> => {
         isLoading.value = true;
         error.value = null;
+        errorDetails.value = null;
 
         try {
-            const client = $directus as DirectusClient<any>;
+            const client = $directus as DirectusNuxtClient;
 
             // Custom command for generating 2FA secret
             const generateTFACommand = (): RestCommand<{ secret: string; otpauth_url: string }, any> => () => ({
@@ -425,9 +428,8 @@ export const useDirectusAuth = () => {
 
             const result = await client.request(generateTFACommand());
             return result;
-        } catch (e: any) {
-            error.value = e.message || "Failed to generate 2FA secret";
-            throw e;
+        } catch (e) {
+            throw setError(e, "generateTwoFactorSecret", "Failed to generate 2FA secret");
         } finally {
             isLoading.value = false;
         }
@@ -439,9 +441,10 @@ export const useDirectusAuth = () => {
     const enableTwoFactor = async (secret: string, otp: string) => {
         isLoading.value = true;
         error.value = null;
+        errorDetails.value = null;
 
         try {
-            const client = $directus as DirectusClient<any>;
+            const client = $directus as DirectusNuxtClient;
 
             // Custom command for enabling 2FA
             const enableTFACommand = (): RestCommand<void, any> => () => ({
@@ -456,9 +459,8 @@ export const useDirectusAuth = () => {
             await $directusAuth.checkAuthStatus();
 
             return true;
-        } catch (e: any) {
-            error.value = e.message || "Failed to enable 2FA";
-            throw e;
+        } catch (e) {
+            throw setError(e, "enableTwoFactor", "Failed to enable 2FA");
         } finally {
             isLoading.value = false;
         }
@@ -470,9 +472,10 @@ export const useDirectusAuth = () => {
     const disableTwoFactor = async (otp: string) => {
         isLoading.value = true;
         error.value = null;
+        errorDetails.value = null;
 
         try {
-            const client = $directus as DirectusClient<any>;
+            const client = $directus as DirectusNuxtClient;
 
             // Custom command for disabling 2FA
             const disableTFACommand = (): RestCommand<void, any> => () => ({
@@ -487,9 +490,8 @@ export const useDirectusAuth = () => {
             await $directusAuth.checkAuthStatus();
 
             return true;
-        } catch (e: any) {
-            error.value = e.message || "Failed to disable 2FA";
-            throw e;
+        } catch (e) {
+            throw setError(e, "disableTwoFactor", "Failed to disable 2FA");
         } finally {
             isLoading.value = false;
         }
@@ -507,6 +509,7 @@ export const useDirectusAuth = () => {
         isAuthenticated,
         isLoading,
         error,
+        errorDetails,
         login,
         logout,
         register,
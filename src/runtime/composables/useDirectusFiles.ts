@@ -0,0 +1,205 @@
+import { ref } from "vue";
+import { useRuntimeConfig } from "#app";
+import { deleteFile as deleteFileCommand, deleteFiles as deleteFilesCommand, importFile as importFileCommand, updateFile, uploadFiles as uploadFilesCommand, type DirectusFile, type RestCommand } from "@directus/sdk";
+import type { DirectusNuxtClient, ResolvedDirectusSchema } from "../types";
+import { buildAssetUrl, type DirectusAssetOptions } from "../utils/assets";
+import { createErrorHandler } from "../utils/errors";
+import { getDirectusInstance } from "../utils/instances";
+import { DIRECTUS_OPERATION, DIRECTUS_UPLOAD_PROGRESS } from "../utils/hooks";
+import { combineSignals, runDirectusRequest, withRequestInit, type DirectusRequestOptions } from "../utils/request";
+import type { DirectusUploadProgress } from "../utils/upload";
+
+type Schema = ResolvedDirectusSchema;
+type DirectusFileItem = DirectusFile<Schema>;
+
+/**
+ * Fields of `directus_files` set together with the upload
+ */
+export interface DirectusFileFields {
+    folder?: string | null;
+    title?: string;
+    description?: string;
+    tags?: string[];
+    filename_download?: string;
+    metadata?: Record<string, unknown>;
+    [field: string]: unknown;
+}
+
+export interface DirectusUploadOptions extends DirectusFileFields {
+    onProgress?: (progress: DirectusUploadProgress) => void;
+    signal?: AbortSignal;
+    /**
+     * Abort the upload after this many milliseconds, `0` disables the timeout
+     * @default 0
+     */
+    timeout?: number;
+}
+
+// Fields come before the files, Directus applies them to the files that follow
+const toFormData = (files: (File | Blob)[], fields: DirectusFileFields) => {
+    const formData = new FormData();
+
+    for (const [field, value] of Object.entries(fields)) {
+        if (value === undefined) continue;
+        formData.append(field, typeof value === "object" && value !== null ? JSON.stringify(value) : String(value));
+    }
+
+    for (const file of files) {
+        formData.append("file", file);
+    }
+
+    return formData;
+};
+
+/**
+ * Upload, import, replace and delete files, and build asset URLs, on a Directus instance
+ * (the default instance when no name is given)
+ */
+export const useDirectusFiles = (instance?: string) => {
+    const { client: $directus, auth: $directusAuth, publicUrl } = getDirectusInstance(instance);
+    const client = $directus as DirectusNuxtClient;
+    const handleError = createErrorHandler("[Directus Files]");
+
+    // Timeout and retry defaults from the `request` module option, overridden per call. Imports and deletes
+    // are not idempotent and never retried.
+    const requestDefaults = useRuntimeConfig().public.directus?.request;
+
+    const send = <Output>(operation: string, command: RestCommand<Output, Schema>, requestOptions: DirectusRequestOptions = {}) =>
+        runDirectusRequest((signal) => client.request(withRequestInit(command, { signal, [DIRECTUS_OPERATION]: operation } as RequestInit)), {
+            ...requestDefaults,
+            ...requestOptions,
+            idempotent: false,
+        });
+
+    const isUploading = ref(false);
+    const progress = ref<DirectusUploadProgress | null>(null);
+
+    // Uploads started by this composable, aborted by cancel()
+    const controllers = new Set<AbortController>();
+
+    // Sent through the SDK client like any other request, so the transformers, hooks and token refresh apply.
+    // In the browser the hooked fetch switches to XMLHttpRequest to report the progress.
+    const upload = async <T>(operation: string, id: string | undefined, files: (File | Blob)[], options: DirectusUploadOptions) => {
+        const { onProgress, signal, timeout = 0, ...fields } = options;
+        const formData = toFormData(files, fields);
+        const command = id ? updateFile(id, formData) : uploadFilesCommand(formData);
+
+        const controller = new AbortController();
+        controllers.add(controller);
+
+        isUploading.value = true;
+        progress.value = { loaded: 0, total: 0, percent: 0 };
+
+        const reportProgress = (uploadProgress: DirectusUploadProgress) => {
+            progress.value = uploadProgress;
+            onProgress?.(uploadProgress);
+        };
+
+        try {
+            // Uploads are never retried, a retried upload could create the file twice
+            return (await runDirectusRequest(
+                (requestSignal) =>
+                    client.request(withRequestInit(command, { signal: requestSignal, [DIRECTUS_OPERATION]: operation, [DIRECTUS_UPLOAD_PROGRESS]: reportProgress } as RequestInit)),
+                { timeout, signal: combineSignals(controller.signal, signal), idempotent: false },
+            )) as T;
+        } finally {
+            controllers.delete(controller);
+            isUploading.value = controllers.size > 0;
+        }
+    };
+
+    /**
+     * Upload a single file
+     */
+    const uploadFile = async (file: File | Blob, options: DirectusUploadOptions = {}) => {
+        try {
+            return await upload<DirectusFileItem>("uploadFile", undefined, [file], options);
+        } catch (error) {
+            throw handleError(error, { collection: "directus_files", operation: "uploadFile" }, "Error uploading file");
+        }
+    };
+
+    /**
+     * Upload multiple files in one request, the fields apply to every file
+     */
+    const uploadFiles = async (files: (File | Blob)[], options: DirectusUploadOptions = {}) => {
+        try {
+            const result = await upload<DirectusFileItem | DirectusFileItem[]>("uploadFiles", undefined, files, options);
+            // Directus returns a single object for a single file
+            return Array.isArray(result) ? result : [result];
+        } catch (error) {
+            throw handleError(error, { collection: "directus_files", operation: "uploadFiles" }, "Error uploading files");
+        }
+    };
+
+    /**
+     * Import a file from a URL
+     */
+    const importFile = async (url: string, fields: DirectusFileFields = {}, requestOptions?: DirectusRequestOptions) => {
+        try {
+            return await send("importFile", importFileCommand(url, fields as Partial<DirectusFileItem>), requestOptions);
+        } catch (error) {
+            throw handleError(error, { collection: "directus_files", operation: "importFile" }, `Error importing file from ${url}`);
+        }
+    };
+
+    /**
+     * Replace the file data of an existing file, keeping its id
+     */
+    const replaceFile = async (id: string, file: File | Blob, options: DirectusUploadOptions = {}) => {
+        try {
+            return await upload<DirectusFileItem>("replaceFile", id, [file], options);
+        } catch (error) {
+            throw handleError(error, { collection: "directus_files", operation: "replaceFile" }, `Error replacing file ${id}`);
+        }
+    };
+
+    /**
+     * Delete a single file
+     */
+    const deleteFile = async (id: string, requestOptions?: DirectusRequestOptions) => {
+        try {
+            return await send("deleteFile", deleteFileCommand(id), requestOptions);
+        } catch (error) {
+            throw handleError(error, { collection: "directus_files", operation: "deleteFile" }, `Error deleting file ${id}`);
+        }
+    };
+
+    /**
+     * Delete multiple files
+     */
+    const deleteFiles = async (ids: string[], requestOptions?: DirectusRequestOptions) => {
+        try {
+            return await send("deleteFiles", deleteFilesCommand(ids), requestOptions);
+        } catch (error) {
+            throw handleError(error, { collection: "directus_files", operation: "deleteFiles" }, "Error deleting files");
+        }
+    };
+
+    /**
+     * Abort all uploads started by this composable
+     */
+    const cancel = () => {
+        controllers.forEach((controller) => controller.abort(new DOMException("Upload cancelled", "AbortError")));
+    };
+
+    /**
+     * Build the URL of an asset, with transformations
+     */
+    const getAssetUrl = (id: string, options: DirectusAssetOptions = {}) => buildAssetUrl(publicUrl, id, options, $directusAuth.getAccessToken());
+
+    return {
+        isUploading,
+        progress,
+        uploadFile,
+        uploadFiles,
+        importFile,
+        replaceFile,
+        deleteFile,
+        deleteFiles,
+        cancel,
+        getAssetUrl,
+    };
+};
+
+export type { DirectusAssetOptions };
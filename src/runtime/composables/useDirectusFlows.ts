@@ -0,0 +1,96 @@
+import type { RestCommand } from "@directus/sdk";
+import { useRuntimeConfig } from "#app";
+import type { DirectusFlows, DirectusNuxtClient, ResolvedDirectusSchema } from "../types";
+import { createErrorHandler } from "../utils/errors";
+import { DIRECTUS_OPERATION } from "../utils/hooks";
+import { getDirectusInstance } from "../utils/instances";
+import { runDirectusRequest, withRequestInit, type DirectusRequestOptions } from "../utils/request";
+
+type FlowPayload = Record<string, unknown>;
+
+export interface DirectusFlowTriggerOptions extends Omit<DirectusRequestOptions, "retry" | "retryDelay"> {
+    /**
+     * Method of the webhook trigger, overrides the alias configuration. Defaults to `POST`.
+     */
+    method?: "GET" | "POST";
+}
+
+type RegisteredFlow = keyof DirectusFlows & string;
+type RegisteredPayload<Flow extends RegisteredFlow> = DirectusFlows[Flow] extends { payload: infer Payload } ? Payload : FlowPayload;
+type RegisteredResponse<Flow extends RegisteredFlow> = DirectusFlows[Flow] extends { response: infer Response } ? Response : unknown;
+// Registered flows never fall back to the untyped overload, so a wrong payload is an error
+type UnregisteredFlow<Flow extends string> = Flow extends RegisteredFlow ? never : Flow;
+
+/**
+ * Trigger of a flow; flows declared in `DirectusFlows` are typed by name, others through the generics.
+ * Registered flows are only checked when the flow name is inferred, i.e. without explicit generics.
+ */
+export interface DirectusFlowTrigger {
+    <Flow extends RegisteredFlow>(flow: Flow, payload?: RegisteredPayload<Flow>, options?: DirectusFlowTriggerOptions): Promise<RegisteredResponse<Flow> | null>;
+    <TResponse = unknown, TPayload extends FlowPayload = FlowPayload, Flow extends string = string>(
+        flow: UnregisteredFlow<Flow>,
+        payload?: TPayload,
+        options?: DirectusFlowTriggerOptions,
+    ): Promise<TResponse | null>;
+}
+
+// Like the SDK's `triggerFlow`, which types the payload as strings only although POST sends any JSON
+const triggerFlow =
+    (method: "GET" | "POST", id: string, payload: FlowPayload = {}): RestCommand<unknown, ResolvedDirectusSchema> =>
+    () =>
+        method === "GET" ? { path: `/flows/trigger/${id}`, params: payload, method } : { path: `/flows/trigger/${id}`, body: JSON.stringify(payload), method };
+
+// Asynchronous flows answer before they run, without a body; the SDK then hands back the raw Response
+const toFlowResult = (result: unknown) => {
+    if (result === undefined || result === "" || (typeof Response !== "undefined" && result instanceof Response)) {
+        return null;
+    }
+    return result;
+};
+
+/**
+ * Trigger Directus Flows with a webhook or manual trigger, on a Directus instance
+ * (the default instance when no name is given)
+ */
+export const useDirectusFlows = (instance?: string) => {
+    const client = getDirectusInstance(instance).client as DirectusNuxtClient;
+    const handleError = createErrorHandler("[Directus Flows]");
+
+    const config = useRuntimeConfig().public.directus;
+    const aliases = config?.flows ?? {};
+    const timeout = config?.request?.timeout;
+
+    /**
+     * Resolve an alias from the `flows` module option to the flow id and method
+     */
+    const resolveFlow = (flow: string) => {
+        const alias = aliases[flow];
+        if (!alias) return { id: flow, method: undefined };
+        return typeof alias === "string" ? { id: alias, method: undefined } : alias;
+    };
+
+    /**
+     * Trigger a flow by id or alias. POST sends the payload as body, GET as query parameters.
+     * Resolves to `null` for flows that return nothing, like asynchronous flows.
+     */
+    const trigger = async (flow: string, payload?: FlowPayload, options: DirectusFlowTriggerOptions = {}): Promise<unknown> => {
+        const { id, method: aliasMethod } = resolveFlow(flow);
+        const method = options.method ?? aliasMethod ?? "POST";
+
+        try {
+            // Flows may have side effects, so they are never retried
+            const result = await runDirectusRequest(
+                (signal) => client.request(withRequestInit(triggerFlow(method, id, payload), { signal, [DIRECTUS_OPERATION]: "triggerFlow" } as RequestInit)),
+                { timeout, ...options, idempotent: false },
+            );
+            return toFlowResult(result);
+        } catch (error) {
+            throw handleError(error, { operation: "triggerFlow" }, `Error triggering flow ${flow}`);
+        }
+    };
+
+    return {
+        // The overloads only narrow the payload and the response of the implementation
+        trigger: trigger as DirectusFlowTrigger,
+    };
+};
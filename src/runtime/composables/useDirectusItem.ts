@@ -0,0 +1,46 @@
+import { useAsyncData } from "#app";
+import { toValue, type MaybeRefOrGetter } from "vue";
+import type { QueryItem } from "@directus/sdk";
+import type { DirectusCollectionItem, DirectusCollections, ResolvedDirectusSchema } from "../types";
+import { DEFAULT_INSTANCE } from "../utils/instances";
+import { getDirectusDataKey } from "../utils/keys";
+import { registerDirectusData } from "../utils/optimistic";
+import { useDirectusApi } from "./useDirectusApi";
+import type { DirectusAsyncDataOptions } from "./useDirectusItems";
+
+type Schema = ResolvedDirectusSchema;
+
+/**
+ * Read a single item of a collection with `useAsyncData`.
+ * The id and query may be refs or getters; the data is refetched whenever they change.
+ */
+export const useDirectusItem = <Collection extends DirectusCollections, const TQuery extends QueryItem<Schema, DirectusCollectionItem<Collection>>>(
+    collection: MaybeRefOrGetter<Collection>,
+    id: MaybeRefOrGetter<string | number>,
+    query?: MaybeRefOrGetter<TQuery | undefined>,
+    options: DirectusAsyncDataOptions = {},
+) => {
+    const { instance = DEFAULT_INSTANCE, key, ...asyncDataOptions } = options;
+    const { getItem } = useDirectusApi(instance);
+
+    const asyncData = useAsyncData(
+        () => key ?? getDirectusDataKey(instance, toValue(collection), toValue(id), toValue(query)),
+        () => getItem(toValue(collection), toValue(id), toValue(query)),
+        asyncDataOptions,
+    );
+
+    // Target of optimistic mutations in useDirectusApi, as a list of at most one item
+    registerDirectusData(instance, {
+        get collection() {
+            return toValue(collection);
+        },
+        acceptsCreate: false,
+        read: () => (asyncData.data.value ? [asyncData.data.value as Record<string, unknown>] : []),
+        write: (items) => {
+            asyncData.data.value = (items[0] ?? null) as typeof asyncData.data.value;
+        },
+        refresh: () => asyncData.refresh(),
+    });
+
+    return asyncData;
+};
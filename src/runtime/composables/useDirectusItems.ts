@@ -0,0 +1,63 @@
+import { useAsyncData } from "#app";
+import { toValue, type MaybeRefOrGetter } from "vue";
+import type { Query } from "@directus/sdk";
+import type { DirectusCollectionItem, DirectusCollections, ResolvedDirectusSchema } from "../types";
+import { DEFAULT_INSTANCE } from "../utils/instances";
+import { getDirectusDataKey } from "../utils/keys";
+import { registerDirectusData } from "../utils/optimistic";
+import { useDirectusApi } from "./useDirectusApi";
+
+type Schema = ResolvedDirectusSchema;
+
+/**
+ * Options of the `useAsyncData` based composables, passed on to `useAsyncData`
+ */
+export interface DirectusAsyncDataOptions {
+    /**
+     * Directus instance to read from, the default instance when not set
+     */
+    instance?: string;
+    /**
+     * Custom `useAsyncData` key, derived from the collection and query when not set
+     */
+    key?: string;
+    lazy?: boolean;
+    server?: boolean;
+    immediate?: boolean;
+    dedupe?: "cancel" | "defer";
+}
+
+/**
+ * Read multiple items of a collection with `useAsyncData`.
+ * The query may be a ref or getter; the data is refetched whenever it changes.
+ */
+export const useDirectusItems = <Collection extends DirectusCollections, const TQuery extends Query<Schema, DirectusCollectionItem<Collection>>>(
+    collection: MaybeRefOrGetter<Collection>,
+    query?: MaybeRefOrGetter<TQuery | undefined>,
+    options: DirectusAsyncDataOptions = {},
+) => {
+    const { instance = DEFAULT_INSTANCE, key, ...asyncDataOptions } = options;
+    const { getItems } = useDirectusApi(instance);
+
+    // The key changes with the query, which makes useAsyncData fetch the new result
+    const asyncData = useAsyncData(
+        () => key ?? getDirectusDataKey(instance, toValue(collection), undefined, toValue(query)),
+        () => getItems(toValue(collection), toValue(query)),
+        asyncDataOptions,
+    );
+
+    // Target of optimistic mutations in useDirectusApi
+    registerDirectusData(instance, {
+        get collection() {
+            return toValue(collection);
+        },
+        acceptsCreate: true,
+        read: () => (asyncData.data.value as Record<string, unknown>[] | null) ?? [],
+        write: (items) => {
+            asyncData.data.value = items as typeof asyncData.data.value;
+        },
+        refresh: () => asyncData.refresh(),
+    });
+
+    return asyncData;
+};
@@ -0,0 +1,153 @@
+import { onMounted, toValue, watch, type MaybeRefOrGetter } from "vue";
+import type { Query } from "@directus/sdk";
+import type { DirectusCollectionItem, DirectusCollections, ResolvedDirectusSchema } from "../types";
+import { DEFAULT_INSTANCE } from "../utils/instances";
+import { stableStringify } from "../utils/keys";
+import { useDirectusItems, type DirectusAsyncDataOptions } from "./useDirectusItems";
+import { useDirectusRealtime } from "./useDirectusRealtime";
+
+type Schema = ResolvedDirectusSchema;
+type DirectusItemRecord = Record<string, unknown>;
+
+export interface DirectusLiveItemsOptions extends DirectusAsyncDataOptions {
+    /**
+     * Primary key field used to match realtime events with list items
+     * @default "id"
+     */
+    primaryKey?: string;
+}
+
+// Items for `init`, `create` and `update`, primary keys (or items) for `delete`
+type LiveSubscriptionMessage =
+    | { type: "subscription"; event: "init" | "create" | "update"; data: DirectusItemRecord[] }
+    | { type: "subscription"; event: "delete"; data: (string | number | DirectusItemRecord)[] };
+
+const getPath = (item: DirectusItemRecord, path: string) => path.split(".").reduce<unknown>((value, key) => (value as DirectusItemRecord | null | undefined)?.[key], item);
+
+// Numbers compare numerically, other values (ISO dates, strings) by their string form
+const isLessThan = (left: unknown, right: unknown) => (typeof left === "number" && typeof right === "number" ? left < right : String(left) < String(right));
+
+// Compare two items by a Directus `sort` array (`-field` sorts descending)
+const compareBySort = (sort: string[]) => (a: DirectusItemRecord, b: DirectusItemRecord) => {
+    for (const field of sort) {
+        const descending = field.startsWith("-");
+        const path = descending ? field.slice(1) : field;
+        const left = getPath(a, path);
+        const right = getPath(b, path);
+
+        if (left === right) continue;
+        if (left == null) return 1;
+        if (right == null) return -1;
+
+        const result = isLessThan(left, right) ? -1 : 1;
+        return descending ? -result : result;
+    }
+    return 0;
+};
+
+/**
+ * Items of a collection that stay in sync through a realtime subscription.
+ * The first result is loaded over REST (and transferred in the SSR payload), then
+ * `create`, `update` and `delete` events are merged into `data` by primary key.
+ */
+export const useDirectusLiveItems = <Collection extends DirectusCollections, const TQuery extends Query<Schema, DirectusCollectionItem<Collection>>>(
+    collection: MaybeRefOrGetter<Collection>,
+    query?: MaybeRefOrGetter<TQuery | undefined>,
+    options: DirectusLiveItemsOptions = {},
+) => {
+    const { primaryKey = "id", ...itemsOptions } = options;
+    const instance = itemsOptions.instance || DEFAULT_INSTANCE;
+
+    const asyncData = useDirectusItems(collection, query, itemsOptions);
+    const { subscribe, unsubscribe, isConnected } = useDirectusRealtime(instance);
+
+    const getQuery = () => toValue(query) as { sort?: string | string[]; limit?: number } | undefined;
+    const getId = (item: DirectusItemRecord) => String(item[primaryKey]);
+
+    // Keep the order and size of the list the REST query would return
+    const setItems = (items: DirectusItemRecord[]) => {
+        const { sort, limit } = getQuery() ?? {};
+        const sortFields = typeof sort === "string" ? [sort] : sort;
+        const sorted = sortFields?.length ? [...items].sort(compareBySort(sortFields)) : items;
+
+        asyncData.data.value = (limit && limit > 0 ? sorted.slice(0, limit) : sorted) as typeof asyncData.data.value;
+    };
+
+    const handleEvent = (message: LiveSubscriptionMessage) => {
+        if (message.type !== "subscription" || !Array.isArray(message.data)) return;
+
+        const current = ((asyncData.data.value as DirectusItemRecord[] | null) ?? []).slice();
+
+        switch (message.event) {
+            case "init":
+                setItems(message.data);
+                break;
+
+            case "create":
+            case "update": {
+                for (const item of message.data) {
+                    const index = current.findIndex((existing) => getId(existing) === getId(item));
+                    if (index === -1) {
+                        current.push(item);
+                    } else {
+                        current[index] = { ...current[index], ...item };
+                    }
+                }
+                setItems(current);
+                break;
+            }
+
+            case "delete": {
+                const deletedIds = new Set(message.data.map((id) => String(typeof id === "object" ? id[primaryKey] : id)));
+                const remaining = current.filter((item) => !deletedIds.has(getId(item)));
+                setItems(remaining);
+
+                // A limited list lost items that the next page may fill, reload it
+                const limit = getQuery()?.limit;
+                if (limit && limit > 0 && current.length >= limit && remaining.length < limit) {
+                    asyncData.refresh();
+                }
+                break;
+            }
+        }
+    };
+
+    let subscriptionId: string | null = null;
+
+    const stop = () => {
+        if (subscriptionId) {
+            unsubscribe(subscriptionId);
+            subscriptionId = null;
+        }
+    };
+
+    const start = async () => {
+        stop();
+
+        try {
+            const handler = await subscribe<LiveSubscriptionMessage>({ collection: toValue(collection), query: toValue(query) ?? {} }, handleEvent);
+            subscriptionId = handler.uid;
+        } catch (error) {
+            console.error(`[Directus Realtime] Live items of ${toValue(collection)} are not updated:`, error);
+        }
+    };
+
+    if (import.meta.client) {
+        onMounted(start);
+
+        // Resubscribe with the new query
+        watch(() => `${toValue(collection)}:${stableStringify(toValue(query))}`, start);
+
+        // Events sent while the connection was down are lost, so reload the list after a reconnect
+        watch(isConnected, (connected, wasConnected) => {
+            if (connected && wasConnected === false && subscriptionId) {
+                asyncData.refresh();
+            }
+        });
+    }
+
+    return {
+        ...asyncData,
+        isConnected,
+    };
+};
@@ -0,0 +1,73 @@
+import { onMounted, toValue, watch, type MaybeRefOrGetter } from "vue";
+import { useNuxtApp } from "#app";
+import { isInPreviewFrame, refreshPreviewData } from "../utils/live-preview";
+import { useDirectusRealtime } from "./useDirectusRealtime";
+
+interface PreviewSubscriptionMessage {
+    type: string;
+    event?: string;
+}
+
+/**
+ * Refetch the data of the item shown in the Directus live preview panel whenever it is saved,
+ * through realtime subscriptions on the item and its content versions. Does nothing outside the panel.
+ */
+export const useDirectusLivePreview = (
+    collection: MaybeRefOrGetter<string>,
+    id: MaybeRefOrGetter<string | number | null | undefined>,
+    options: { primaryKey?: string } = {},
+) => {
+    const { primaryKey = "id" } = options;
+    const nuxtApp = useNuxtApp();
+    const isLivePreview = isInPreviewFrame();
+
+    /**
+     * Refetch the data composables of the collection
+     */
+    const refresh = () => nuxtApp.runWithContext(() => refreshPreviewData(toValue(collection)));
+
+    if (!isLivePreview) {
+        return { isLivePreview, refresh };
+    }
+
+    const { subscribe, unsubscribe } = useDirectusRealtime();
+    let subscriptionIds: string[] = [];
+
+    const onEvent = (message: PreviewSubscriptionMessage) => {
+        if (message.type === "subscription" && message.event !== "init") {
+            refresh().catch((error) => console.error("[Directus] Live preview refresh failed:", error));
+        }
+    };
+
+    const stop = () => {
+        subscriptionIds.forEach((subscriptionId) => unsubscribe(subscriptionId));
+        subscriptionIds = [];
+    };
+
+    const start = async () => {
+        stop();
+
+        const itemCollection = toValue(collection);
+        const itemId = toValue(id);
+        if (itemId === null || itemId === undefined) return;
+
+        try {
+            // Saves of the main version update the item, saves of a content version update `directus_versions`
+            const handlers = await Promise.all([
+                subscribe<PreviewSubscriptionMessage>({ collection: itemCollection, query: { filter: { [primaryKey]: { _eq: itemId } } } }, onEvent),
+                subscribe<PreviewSubscriptionMessage>(
+                    { collection: "directus_versions", query: { filter: { collection: { _eq: itemCollection }, item: { _eq: String(itemId) } } } },
+                    onEvent,
+                ),
+            ]);
+            subscriptionIds = handlers.map((handler) => handler.uid);
+        } catch (error) {
+            console.error(`[Directus Realtime] Live preview of ${itemCollection} ${itemId} is not updated:`, error);
+        }
+    };
+
+    onMounted(start);
+    watch(() => `${toValue(collection)}:${toValue(id)}`, start);
+
+    return { isLivePreview, refresh };
+};
@@ -0,0 +1,253 @@
+import { computed, onMounted, ref, watch } from "vue";
+import { aggregate, readNotifications, updateNotifications, type DirectusNotification, type Query, type RestCommand } from "@directus/sdk";
+import type { DirectusNuxtClient, ResolvedDirectusSchema } from "../types";
+import { createErrorHandler } from "../utils/errors";
+import { DEFAULT_INSTANCE, getDirectusInstance } from "../utils/instances";
+import { useDirectusRealtime } from "./useDirectusRealtime";
+
+type Schema = ResolvedDirectusSchema;
+type DirectusNotificationItem = DirectusNotification<Schema>;
+
+export interface DirectusNotificationsOptions {
+    instance?: string;
+    /**
+     * Notifications loaded per page
+     * @default 20
+     */
+    pageSize?: number;
+    /**
+     * Status set by `markRead`. Directus only knows `inbox` and `archived`, another status needs a matching
+     * choice on the `status` field of `directus_notifications`.
+     * @default "archived"
+     */
+    readStatus?: string;
+    fields?: Query<Schema, DirectusNotificationItem>["fields"];
+}
+
+interface NotificationSubscriptionMessage {
+    type: "subscription";
+    event: "init" | "create" | "update" | "delete";
+    data: unknown[];
+}
+
+const INBOX = "inbox";
+const ARCHIVED = "archived";
+
+/**
+ * Inbox of the current user from `directus_notifications`, loaded page by page and kept live through
+ * a realtime subscription. `inbox` notifications are unread, `readStatus` ones read, `archived` ones leave the list.
+ */
+export const useDirectusNotifications = (options: DirectusNotificationsOptions = {}) => {
+    const { instance = DEFAULT_INSTANCE, pageSize = 20, readStatus = ARCHIVED, fields = ["*"] } = options;
+    const { client: $directus, auth: $directusAuth } = getDirectusInstance(instance);
+    const client = $directus as DirectusNuxtClient;
+    const handleError = createErrorHandler("[Directus Notifications]");
+    const { subscribe, unsubscribe, isConnected } = useDirectusRealtime(instance);
+
+    const notifications = ref<DirectusNotificationItem[]>([]);
+    const unreadCount = ref(0);
+    const hasMore = ref(false);
+    const pending = ref(false);
+    const error = ref<Error | null>(null);
+
+    const userId = computed(() => $directusAuth.currentUser.value?.id ?? null);
+    const statuses = [...new Set([INBOX, readStatus])].filter((status) => status !== ARCHIVED);
+    const recipientFilter = { recipient: { _eq: "$CURRENT_USER" } };
+    const inboxFilter = { ...recipientFilter, status: { _in: statuses } };
+    const unreadFilter = { ...recipientFilter, status: { _eq: INBOX } };
+
+    let page = 0;
+
+    const isListed = (notification: DirectusNotificationItem) => statuses.includes(notification.status ?? INBOX);
+
+    const sortByTimestamp = (items: DirectusNotificationItem[]) =>
+        items.sort((a, b) => String(b.timestamp ?? "").localeCompare(String(a.timestamp ?? "")));
+
+    const countUnread = async () => {
+        const result = await client.request(aggregate("directus_notifications", { aggregate: { count: "*" }, query: { filter: unreadFilter } }));
+        unreadCount.value = Number(result?.[0]?.count ?? 0);
+    };
+
+    const fetchPage = (pageNumber: number) =>
+        client.request(readNotifications({ fields, filter: inboxFilter, sort: ["-timestamp"], limit: pageSize, page: pageNumber })) as Promise<DirectusNotificationItem[]>;
+
+    /**
+     * Reload the first page and the unread count
+     */
+    const refresh = async () => {
+        if (!userId.value) {
+            notifications.value = [];
+            unreadCount.value = 0;
+            hasMore.value = false;
+            return;
+        }
+
+        pending.value = true;
+        error.value = null;
+
+        try {
+            const [items] = await Promise.all([fetchPage(1), countUnread()]);
+            page = 1;
+            notifications.value = items;
+            hasMore.value = items.length === pageSize;
+        } catch (e) {
+            error.value = handleError(e, { collection: "directus_notifications", operation: "readNotifications" }, "Error loading notifications");
+        } finally {
+            pending.value = false;
+        }
+    };
+
+    /**
+     * Append the next page of the inbox
+     */
+    const loadMore = async () => {
+        if (!userId.value || !hasMore.value || pending.value) return;
+
+        pending.value = true;
+        error.value = null;
+
+        try {
+            const items = await fetchPage(page + 1);
+            page++;
+
+            // Notifications that arrived live may already be listed
+            const known = new Set(notifications.value.map((notification) => notification.id));
+            notifications.value = [...notifications.value, ...items.filter((notification) => !known.has(notification.id))];
+            hasMore.value = items.length === pageSize;
+        } catch (e) {
+            error.value = handleError(e, { collection: "directus_notifications", operation: "readNotifications" }, "Error loading notifications");
+        } finally {
+            pending.value = false;
+        }
+    };
+
+    // Optimistic status change, rolled back when Directus refuses it
+    const setStatus = async (ids: string[], status: string, operation: string) => {
+        const previous = notifications.value;
+        const previousUnread = unreadCount.value;
+        const changed = new Set(ids);
+        const wasUnread = previous.filter((notification) => changed.has(notification.id) && notification.status === INBOX).length;
+
+        notifications.value = previous
+            .map((notification) => (changed.has(notification.id) ? { ...notification, status } : notification))
+            .filter(isListed);
+        unreadCount.value = Math.max(0, unreadCount.value - (status === INBOX ? 0 : wasUnread));
+
+        try {
+            await client.request(updateNotifications(ids, { status }));
+        } catch (e) {
+            notifications.value = previous;
+            unreadCount.value = previousUnread;
+            throw handleError(e, { collection: "directus_notifications", operation }, "Error updating notifications");
+        }
+    };
+
+    /**
+     * Mark one or more notifications as read
+     */
+    const markRead = (id: string | string[]) => setStatus(Array.isArray(id) ? id : [id], readStatus, "markRead");
+
+    /**
+     * Mark every unread notification of the current user as read, including those not loaded yet
+     */
+    const markAllRead = async () => {
+        const previous = notifications.value;
+        const previousUnread = unreadCount.value;
+
+        notifications.value = previous.map((notification) => (notification.status === INBOX ? { ...notification, status: readStatus } : notification)).filter(isListed);
+        unreadCount.value = 0;
+
+        // Batch update by query, so unread notifications of later pages are included
+        const markAllReadCommand = (): RestCommand<unknown, Schema> => () => ({
+            path: `/notifications`,
+            method: "PATCH",
+            body: JSON.stringify({ query: { filter: unreadFilter, limit: -1 }, data: { status: readStatus } }),
+        });
+
+        try {
+            await client.request(markAllReadCommand());
+        } catch (e) {
+            notifications.value = previous;
+            unreadCount.value = previousUnread;
+            throw handleError(e, { collection: "directus_notifications", operation: "markAllRead" }, "Error updating notifications");
+        }
+    };
+
+    /**
+     * Archive one or more notifications, which removes them from the inbox
+     */
+    const archive = (id: string | string[]) => setStatus(Array.isArray(id) ? id : [id], ARCHIVED, "archive");
+
+    const handleEvent = (message: NotificationSubscriptionMessage) => {
+        if (message.type !== "subscription" || !Array.isArray(message.data) || message.event === "init") return;
+
+        const current = notifications.value.slice();
+
+        if (message.event === "delete") {
+            const deletedIds = new Set(message.data.map((id) => String(typeof id === "object" && id !== null ? (id as DirectusNotificationItem).id : id)));
+            notifications.value = current.filter((notification) => !deletedIds.has(String(notification.id)));
+        } else {
+            for (const item of message.data as DirectusNotificationItem[]) {
+                const index = current.findIndex((notification) => notification.id === item.id);
+                if (index === -1) {
+                    current.push(item);
+                } else {
+                    current[index] = { ...current[index], ...item };
+                }
+            }
+            notifications.value = sortByTimestamp(current.filter(isListed));
+        }
+
+        // Events carry no previous status, so the count is read again
+        countUnread().catch((e) => console.error("[Directus Notifications] Error counting unread notifications:", e));
+    };
+
+    let subscriptionId: string | null = null;
+
+    const stop = () => {
+        if (subscriptionId) {
+            unsubscribe(subscriptionId);
+            subscriptionId = null;
+        }
+    };
+
+    const start = async () => {
+        stop();
+        await refresh();
+        if (!userId.value) return;
+
+        try {
+            const handler = await subscribe<NotificationSubscriptionMessage>({ collection: "directus_notifications", query: { fields, filter: recipientFilter } }, handleEvent);
+            subscriptionId = handler.uid;
+        } catch (e) {
+            console.error("[Directus Realtime] Notifications are not updated:", e);
+        }
+    };
+
+    if (import.meta.client) {
+        onMounted(start);
+
+        // Load the inbox of the user that signed in, clear it on logout
+        watch(userId, start);
+
+        // Events sent while the connection was down are lost, so reload after a reconnect
+        watch(isConnected, (connected, wasConnected) => {
+            if (connected && wasConnected === false && subscriptionId) {
+                refresh();
+            }
+        });
+    }
+
+    return {
+        notifications,
+        unreadCount,
+        hasMore,
+        pending,
+        error,
+        refresh,
+        loadMore,
+        markRead,
+        markAllRead,
+        archive,
+    };
+};
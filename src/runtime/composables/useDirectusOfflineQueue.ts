@@ -0,0 +1,44 @@
+import { computed, getCurrentScope, onScopeDispose } from "vue";
+import type { DirectusConflictHandler } from "../utils/offline";
+import { getDirectusInstance } from "../utils/instances";
+
+export type { DirectusConflict, DirectusConflictHandler, DirectusConflictResolution, DirectusQueuedMutation } from "../utils/offline";
+
+/**
+ * Offline queue of a Directus instance (the default instance when no name is given):
+ * mutations waiting for connectivity, conflicts and their resolution
+ */
+export const useDirectusOfflineQueue = (instance?: string) => {
+    const offline = getDirectusInstance(instance).offline;
+
+    const pending = computed(() => offline.entries.value.filter((entry) => entry.status === "pending"));
+    const conflicts = computed(() => offline.entries.value.filter((entry) => entry.status === "conflict"));
+    const failed = computed(() => offline.entries.value.filter((entry) => entry.status === "failed"));
+
+    /**
+     * Decide conflicts found during replay, removed with the calling component
+     */
+    const onConflict = (handler: DirectusConflictHandler) => {
+        const remove = offline.onConflict(handler);
+
+        if (getCurrentScope()) {
+            onScopeDispose(remove);
+        }
+
+        return remove;
+    };
+
+    return {
+        queue: offline.entries,
+        pending,
+        conflicts,
+        failed,
+        isOnline: offline.isOnline,
+        isReplaying: offline.isReplaying,
+        replay: offline.replay,
+        resolveConflict: offline.resolve,
+        discard: offline.discard,
+        clear: offline.clear,
+        onConflict,
+    };
+};
@@ -0,0 +1,257 @@
+import { useAsyncData } from "#app";
+import { computed, ref, shallowRef, toValue, watch, type MaybeRefOrGetter } from "vue";
+import type { Query } from "@directus/sdk";
+import type { DirectusCollectionItem, DirectusCollections, ResolvedDirectusSchema } from "../types";
+import { createErrorHandler } from "../utils/errors";
+import { DEFAULT_INSTANCE } from "../utils/instances";
+import { getDirectusDataKey, stableStringify } from "../utils/keys";
+import { registerDirectusData } from "../utils/optimistic";
+import { useDirectusApi } from "./useDirectusApi";
+import type { DirectusAsyncDataOptions } from "./useDirectusItems";
+
+type Schema = ResolvedDirectusSchema;
+
+export interface DirectusPaginationOptions extends Omit<DirectusAsyncDataOptions, "key"> {
+    /**
+     * Number of items per page
+     * @default 25
+     */
+    pageSize?: number;
+    /**
+     * Append pages to `items` instead of replacing them
+     * @default false
+     */
+    infinite?: boolean;
+    /**
+     * Keyset pagination on a sort field (infinite mode only). Pages are loaded with a filter
+     * on the last loaded value instead of an offset, which stays stable while items are added.
+     * Replaces the `sort` of the query with the cursor field, then the primary key (`id` by default)
+     * for items with the same value. The cursor field must not be null, loading more stops with an error
+     * after an item without a value.
+     */
+    cursor?: string | { field: string; direction?: "asc" | "desc"; primaryKey?: string };
+}
+
+/**
+ * Paginate the items of a collection with `useAsyncData`, including the total number of
+ * items matching the filter. Changing the query resets the pagination to page one.
+ */
+export const useDirectusPagination = <Collection extends DirectusCollections, const TQuery extends Query<Schema, DirectusCollectionItem<Collection>>>(
+    collection: MaybeRefOrGetter<Collection>,
+    query?: MaybeRefOrGetter<TQuery | undefined>,
+    options: DirectusPaginationOptions = {},
+) => {
+    const { instance = DEFAULT_INSTANCE, pageSize = 25, infinite = false, cursor, ...asyncDataOptions } = options;
+    const { getItems, aggregate } = useDirectusApi(instance);
+    const handleError = createErrorHandler("[Directus]");
+
+    const cursorField = typeof cursor === "string" ? cursor : cursor?.field;
+    const isDescending = typeof cursor === "object" && cursor.direction === "desc";
+    const primaryKey = (typeof cursor === "object" && cursor.primaryKey) || "id";
+
+    const page = ref(1);
+
+    const buildQuery = (pageNumber: number, after?: { value: unknown; key: unknown }) => {
+        const baseQuery = toValue(query) as Record<string, any> | undefined;
+        const pageQuery: Record<string, any> = { ...baseQuery, limit: pageSize };
+
+        if (infinite && cursorField) {
+            // Keyset pagination needs a stable order, the primary key breaks ties of the cursor field
+            const operator = isDescending ? "_lt" : "_gt";
+            const hasTies = cursorField !== primaryKey;
+            const order = (field: string) => (isDescending ? `-${field}` : field);
+            pageQuery.sort = hasTies ? [order(cursorField), order(primaryKey)] : [order(cursorField)];
+
+            // The next page is filtered on these values of the last loaded item
+            if (Array.isArray(baseQuery?.fields) && !baseQuery.fields.includes("*")) {
+                pageQuery.fields = [...new Set([...baseQuery.fields, cursorField, primaryKey])];
+            }
+
+            if (after) {
+                const cursorFilter = hasTies
+                    ? {
+                          _or: [
+                              { [cursorField]: { [operator]: after.value } },
+                              { _and: [{ [cursorField]: { _eq: after.value } }, { [primaryKey]: { [operator]: after.key } }] },
+                          ],
+                      }
+                    : { [cursorField]: { [operator]: after.value } };
+                pageQuery.filter = baseQuery?.filter ? { _and: [baseQuery.filter, cursorFilter] } : cursorFilter;
+            }
+        } else {
+            pageQuery.page = pageNumber;
+        }
+
+        return pageQuery as TQuery;
+    };
+
+    const fetchPage = (pageNumber: number, after?: { value: unknown; key: unknown }) => getItems(toValue(collection), buildQuery(pageNumber, after));
+
+    type Item = Awaited<ReturnType<typeof fetchPage>>[number];
+
+    // Number of items matching the filter and search, the `meta.filter_count` of a REST request
+    const fetchTotal = async () => {
+        const { filter, search } = (toValue(query) as { filter?: Record<string, any>; search?: string } | undefined) ?? {};
+        const result = await aggregate(toValue(collection), { count: "*" }, { ...(filter ? { filter } : {}), ...(search ? { search } : {}) });
+        return Number(result?.[0]?.count ?? 0);
+    };
+
+    // Pages loaded after the first one in infinite mode
+    const moreItems = shallowRef<Item[]>([]);
+    const lastPageSize = ref<number | null>(null);
+    const isLoadingMore = ref(false);
+    const loadMoreError = ref<unknown>(null);
+
+    // Reset before the key is re-evaluated, so the new query is fetched from page one right away
+    watch(
+        () => `${toValue(collection)}:${stableStringify(toValue(query))}`,
+        () => {
+            page.value = 1;
+            moreItems.value = [];
+            lastPageSize.value = null;
+            loadMoreError.value = null;
+        },
+        { flush: "sync" },
+    );
+
+    // In infinite mode only the first page goes through useAsyncData and the SSR payload
+    const asyncData = useAsyncData(
+        () => getDirectusDataKey(instance, toValue(collection), infinite ? "infinite" : `page-${page.value}`, { query: toValue(query), pageSize, cursor }),
+        async () => {
+            const [items, total] = await Promise.all([fetchPage(infinite ? 1 : page.value), fetchTotal()]);
+            return { items, total };
+        },
+        asyncDataOptions,
+    );
+
+    // Targets of optimistic mutations in useDirectusApi; created items only show up after a refresh,
+    // as their position in the pages is unknown
+    registerDirectusData(instance, {
+        get collection() {
+            return toValue(collection);
+        },
+        acceptsCreate: false,
+        read: () => (asyncData.data.value?.items ?? []) as Record<string, unknown>[],
+        write: (pageItems) => {
+            if (asyncData.data.value) {
+                asyncData.data.value = { ...asyncData.data.value, items: pageItems as typeof asyncData.data.value.items };
+            }
+        },
+        refresh: () => asyncData.refresh(),
+    });
+
+    registerDirectusData(instance, {
+        get collection() {
+            return toValue(collection);
+        },
+        acceptsCreate: false,
+        read: () => moreItems.value as Record<string, unknown>[],
+        write: (pageItems) => {
+            moreItems.value = pageItems as Item[];
+        },
+    });
+
+    const items = computed<Item[]>(() => {
+        const pageItems = (asyncData.data.value?.items ?? []) as Item[];
+        return infinite ? [...pageItems, ...moreItems.value] : pageItems;
+    });
+
+    const total = computed(() => asyncData.data.value?.total ?? 0);
+    const pageCount = computed(() => Math.max(1, Math.ceil(total.value / pageSize)));
+
+    const hasMore = computed(() => {
+        if (infinite) {
+            const loadedPageSize = lastPageSize.value ?? asyncData.data.value?.items.length ?? 0;
+            return loadedPageSize === pageSize && items.value.length < total.value;
+        }
+        return page.value < pageCount.value;
+    });
+
+    const pending = computed(() => asyncData.pending.value || isLoadingMore.value);
+    const error = computed(() => asyncData.error.value || loadMoreError.value);
+
+    const loadMore = async () => {
+        if (isLoadingMore.value || !hasMore.value) return;
+
+        isLoadingMore.value = true;
+        loadMoreError.value = null;
+
+        try {
+            const lastItem = items.value[items.value.length - 1] as Record<string, unknown> | undefined;
+            const nextPage = page.value + 1;
+            let after: { value: unknown; key: unknown } | undefined;
+
+            if (infinite && cursorField && lastItem) {
+                // Without a value the keyset filter would load the first page again
+                if (lastItem[cursorField] == null || lastItem[primaryKey] == null) {
+                    throw new Error(`[Directus] Cannot load more items after an item without a value for the cursor field "${cursorField}" or the primary key "${primaryKey}"`);
+                }
+                after = { value: lastItem[cursorField], key: lastItem[primaryKey] };
+            }
+
+            const pageItems = await fetchPage(nextPage, after);
+
+            moreItems.value = [...moreItems.value, ...(pageItems as Item[])];
+            lastPageSize.value = pageItems.length;
+            page.value = nextPage;
+        } catch (err) {
+            loadMoreError.value = handleError(err, { collection: toValue(collection), operation: "next" }, `Error loading more items from ${toValue(collection)}`);
+        } finally {
+            isLoadingMore.value = false;
+        }
+    };
+
+    /**
+     * Go to a page (page mode only), clamped to the available pages
+     */
+    const goTo = (pageNumber: number) => {
+        if (infinite) return;
+        page.value = Math.min(Math.max(1, Math.floor(pageNumber)), pageCount.value);
+    };
+
+    /**
+     * Go to the next page, or append the next page in infinite mode
+     */
+    const next = async () => {
+        if (infinite) {
+            await loadMore();
+        } else if (hasMore.value) {
+            goTo(page.value + 1);
+        }
+    };
+
+    /**
+     * Go to the previous page (page mode only)
+     */
+    const prev = () => goTo(page.value - 1);
+
+    /**
+     * Reload from page one, keeping the current query
+     */
+    const refresh = async () => {
+        moreItems.value = [];
+        lastPageSize.value = null;
+        loadMoreError.value = null;
+
+        if (infinite || page.value === 1) {
+            await asyncData.refresh();
+        } else {
+            page.value = 1;
+        }
+    };
+
+    return {
+        items,
+        page: computed(() => page.value),
+        pageSize,
+        pageCount,
+        total,
+        hasMore,
+        pending,
+        error,
+        next,
+        prev,
+        goTo,
+        refresh,
+    };
+};
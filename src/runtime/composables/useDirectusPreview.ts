@@ -0,0 +1,25 @@
+import { computed, readonly } from "vue";
+import { navigateTo, useRoute, useRuntimeConfig } from "#app";
+import { usePreviewVersion } from "../utils/preview";
+
+/**
+ * Draft preview state, turned on by the preview route with the secret from Directus
+ */
+export const useDirectusPreview = () => {
+    const version = usePreviewVersion();
+    const route = useRoute();
+    const previewRoute = useRuntimeConfig().public.directus?.preview?.route || "/api/_directus/preview";
+
+    const isPreview = computed(() => !!version.value);
+
+    /**
+     * Turn preview off through the exit route, returning to the current page by default
+     */
+    const exit = (redirect: string = route.fullPath) => navigateTo(`${previewRoute}/exit?redirect=${encodeURIComponent(redirect)}`, { external: true });
+
+    return {
+        isPreview,
+        version: readonly(version),
+        exit,
+    };
+};
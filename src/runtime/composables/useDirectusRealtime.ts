@@ -1,6 +1,6 @@
 import { ref, unref, computed, onUnmounted } from "vue";
-import { useNuxtApp } from "#app";
-import type { DirectusClient } from "@directus/sdk";
+import type { DirectusNuxtClient } from "../types";
+import { DEFAULT_INSTANCE, getDirectusInstance } from "../utils/instances";
 
 interface SubscriptionOptions {
     collection: string;
@@ -11,6 +11,7 @@ interface SubscriptionOptions {
 
 interface SubscriptionHandler {
     uid: string;
+    instance: string;
     collection: string;
     unsubscribe: () => void;
     persistent: boolean;
@@ -19,9 +20,12 @@ interface SubscriptionHandler {
 // Global subscription registry to prevent duplicates
 const subscriptions = new Map<string, SubscriptionHandler>();
 
-export const useDirectusRealtime = () => {
-    const { $directus, $directusWs } = useNuxtApp();
-    const client = $directus as DirectusClient<any>;
+/**
+ * Realtime subscriptions on a Directus instance (the default instance when no name is given)
+ */
+export const useDirectusRealtime = (instance: string = DEFAULT_INSTANCE) => {
+    const { client: $directus, ws: $directusWs } = getDirectusInstance(instance);
+    const client = $directus as DirectusNuxtClient;
 
     // $directusWs.isConnected is already a Ref, no need for .value in computed
     const isConnected = computed(() => unref($directusWs.isConnected));
@@ -72,6 +76,7 @@ export const useDirectusRealtime = () => {
             // Create handler
             const handler: SubscriptionHandler = {
                 uid: subscriptionId,
+                instance,
                 collection,
                 unsubscribe,
                 persistent,
@@ -125,7 +130,7 @@ export const useDirectusRealtime = () => {
         const toRemove: string[] = [];
 
         subscriptions.forEach((handler, id) => {
-            if (handler.collection === collection && !handler.persistent) {
+            if (handler.instance === instance && handler.collection === collection && !handler.persistent) {
                 toRemove.push(id);
             }
         });
@@ -140,7 +145,7 @@ export const useDirectusRealtime = () => {
         const toRemove: string[] = [];
 
         subscriptions.forEach((handler, id) => {
-            if (!handler.persistent) {
+            if (handler.instance === instance && !handler.persistent) {
                 toRemove.push(id);
             }
         });
@@ -152,7 +157,7 @@ export const useDirectusRealtime = () => {
      * Get active subscriptions
      */
     const getActiveSubscriptions = () => {
-        return Array.from(subscriptions.values());
+        return Array.from(subscriptions.values()).filter((handler) => handler.instance === instance);
     };
 
     /**
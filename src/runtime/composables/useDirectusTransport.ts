@@ -0,0 +1,11 @@
+import { getDirectusInstance } from "../utils/instances";
+
+/**
+ * Register `onRequest`/`onResponse` transformers on the REST transport of a Directus instance
+ * (the default instance when no name is given). Both return a function removing the transformer.
+ *
+ * Intended for app plugins, as the transformers apply to every request of the client.
+ */
+export const useDirectusTransport = (instance?: string) => {
+    return getDirectusInstance(instance).transport;
+};
@@ -1,6 +1,14 @@
-import { defineNuxtPlugin, useRuntimeConfig, useCookie, useState } from "#app";
+import { defineNuxtPlugin, useRuntimeConfig, useCookie, useState, useRequestHeaders, useRequestEvent, useRequestURL, type NuxtApp } from "#app";
 import { readonly } from "vue";
-import { createDirectus, rest, authentication, realtime, readMe, type AuthenticationStorage } from "@directus/sdk";
+import { appendResponseHeader, setResponseHeader } from "h3";
+import { createDirectus, rest, authentication, realtime, readMe, staticToken, type AuthenticationData, type AuthenticationStorage, type RequestTransformer, type ResponseTransformer } from "@directus/sdk";
+import type { DirectusInstanceAuthMode, DirectusInstanceRuntimeConfig, DirectusNuxtClient, ResolvedDirectusSchema } from "./types";
+import { getDirectusCookieHeader, mergeSetCookies } from "./utils/cookies";
+import { getDirectusCache } from "./utils/cache";
+import { createHookedFetch } from "./utils/hooks";
+import { DEFAULT_INSTANCE } from "./utils/instances";
+import { createOfflineQueue } from "./utils/offline";
+import { usePreviewVersion } from "./utils/preview";
 
 interface DirectusUser {
     id: string;
@@ -12,12 +20,16 @@ interface DirectusUser {
 }
 
 class NuxtCookieStorage implements AuthenticationStorage {
-    private cookie = useCookie<string | object | null>("directus-data", {
-        default: () => null,
-        secure: process.env.NODE_ENV === "production",
-        sameSite: process.env.NODE_ENV === "production" ? "strict" : "lax",
-        httpOnly: false,
-    });
+    private cookie;
+
+    constructor(name: string) {
+        this.cookie = useCookie<string | object | null>(name, {
+            default: () => null,
+            secure: process.env.NODE_ENV === "production",
+            sameSite: process.env.NODE_ENV === "production" ? "strict" : "lax",
+            httpOnly: false,
+        });
+    }
 
     get() {
         return this.cookie.value;
@@ -28,90 +40,208 @@ class NuxtCookieStorage implements AuthenticationStorage {
     }
 }
 
-export default defineNuxtPlugin(async () => {
-    const config = useRuntimeConfig();
+/**
+ * In-memory storage used when the browser must not hold tokens: in session mode the tokens
+ * live in httpOnly cookies (only seeded with the access token during SSR), and public-only
+ * instances have none at all.
+ */
+class MemoryStorage implements AuthenticationStorage {
+    private data: AuthenticationData | null = null;
 
-    // Get API URL from runtime config (must be configured in nuxt.config.ts)
-    const apiUrl = config.public.directusUrl;
-
-    if (!apiUrl) {
-        throw new Error("[Directus] NUXT_PUBLIC_DIRECTUS_URL is not configured. Please set it in your nuxt.config.ts runtimeConfig.public.directusUrl");
+    get() {
+        return this.data;
     }
 
-    if (import.meta.client && import.meta.dev) {
-        console.log("[Directus] Using API URL:", apiUrl);
+    set(data: AuthenticationData | null) {
+        this.data = data;
     }
+}
 
-    // WebSocket URL - use direct Directus URL or custom WS URL
-    // WebSockets cannot be proxied through Nitro, so we need to connect directly
-    const wsBaseUrl = config.public.directusWsUrl || config.public.directusUrl;
-    const wsUrl = wsBaseUrl.replace(/^http/, "ws") + "/websocket";
+interface DirectusInstanceOptions {
+    name: string;
+    apiUrl: string;
+    /**
+     * URL the browser reaches Directus at, for links such as asset URLs
+     */
+    publicUrl: string;
+    wsUrl: string;
+    authMode: DirectusInstanceAuthMode;
+    /**
+     * Read-only token used in `static` mode
+     */
+    token?: string;
+    realtime: boolean;
+    session?: {
+        route: (route: "login" | "logout" | "refresh" | "me") => string;
+    };
+}
 
-    if (import.meta.client && import.meta.dev) {
-        console.log("[Directus] WebSocket URL:", wsUrl);
-    }
+/**
+ * Create the client, auth state and WebSocket state of one Directus instance.
+ * State and cookie names of named instances are suffixed with the instance name.
+ */
+const createDirectusInstance = (nuxtApp: NuxtApp, options: DirectusInstanceOptions) => {
+    const { name, apiUrl, wsUrl, session } = options;
+    const key = (base: string) => (name === DEFAULT_INSTANCE ? base : `${base}-${name}`);
+    const logPrefix = name === DEFAULT_INSTANCE ? "[Directus]" : `[Directus:${name}]`;
+
+    // Only `cookie` mode has a user session; `static` and `none` never call readMe or touch the token cookies
+    const isAuthEnabled = options.authMode === "cookie";
+    const isSessionMode = isAuthEnabled && !!session;
+    const dataCookieName = key("directus-data");
 
     // Create custom cookie storage
-    const storage = new NuxtCookieStorage();
+    const storage = isSessionMode || !isAuthEnabled ? new MemoryStorage() : new NuxtCookieStorage(dataCookieName);
+
+    // During SSR there is no browser to attach the Directus cookies, so forward them from the incoming request.
+    // They belong to the default instance, named instances on other hosts must not receive its refresh token.
+    let forwardedCookies = import.meta.server && isAuthEnabled && !isSessionMode && name === DEFAULT_INSTANCE ? getDirectusCookieHeader(useRequestHeaders(["cookie"]).cookie) : "";
+    const requestEvent = import.meta.server ? useRequestEvent(nuxtApp) : undefined;
+    const hookedFetch = createHookedFetch(nuxtApp, name, apiUrl);
+
+    // The SDK refreshes expired tokens through `globals.fetch`, not the rest transport, so the cookies are
+    // forwarded here and the rotated ones are passed on to the browser
+    const serverFetch: typeof hookedFetch = async (input, init = {}) => {
+        if (!forwardedCookies) return hookedFetch(input, init);
+
+        const headers = new Headers(init.headers);
+        headers.set("cookie", forwardedCookies);
+        const response = await hookedFetch(input, { ...init, headers });
+
+        const setCookies = response.headers.getSetCookie();
+        if (setCookies.length) {
+            forwardedCookies = mergeSetCookies(forwardedCookies, setCookies);
+            if (requestEvent) {
+                setCookies.forEach((cookie) => appendResponseHeader(requestEvent, "set-cookie", cookie));
+            }
+        }
+
+        return response;
+    };
+
+    // Transformers of the REST transport registered by app plugins through useDirectusTransport()
+    const requestTransformers = new Set<RequestTransformer>();
+    const responseTransformers = new Set<ResponseTransformer>();
+
+    const onRequest: RequestTransformer = async (requestOptions) => {
+        let result = requestOptions;
+        for (const transformer of requestTransformers) {
+            result = await transformer(result);
+        }
+        return result;
+    };
+
+    const onResponse: ResponseTransformer = async (data, requestOptions) => {
+        let result = data;
+        for (const transformer of responseTransformers) {
+            result = await transformer(result, requestOptions);
+        }
+        return result;
+    };
+
+    if (import.meta.server && options.authMode === "static" && !options.token) {
+        console.warn(`${logPrefix} Auth mode is "static" but no token is configured, requests use the public role`);
+    }
 
     // Create Directus client with authentication and WebSocket
-    const directusClient = createDirectus(apiUrl)
-        .with(authentication("cookie", { credentials: "include", storage }))
-        .with(rest({ credentials: "include" }))
+    const baseClient = createDirectus<ResolvedDirectusSchema>(apiUrl, { globals: { fetch: import.meta.server ? serverFetch : hookedFetch } });
+    const authenticatedClient =
+        options.authMode === "static"
+            ? baseClient.with(staticToken(options.token || ""))
+            : baseClient.with(authentication("cookie", { credentials: "include", storage, autoRefresh: import.meta.client && isAuthEnabled && !isSessionMode }));
+
+    // `static` and `none` clients have no login/logout/refresh, guarded in useDirectusAuth
+    const directusClient = authenticatedClient
+        .with(rest({ credentials: isAuthEnabled ? "include" : "omit", onRequest, onResponse }))
         .with(
             realtime({
                 url: wsUrl,
                 debug: process.env.NODE_ENV === "development",
             }),
-        );
+        ) as DirectusNuxtClient;
 
     // Create reactive authentication state
-    const isAuthenticatedState = useState<boolean>("directus-authenticated", () => false);
-    const currentUser = useState<DirectusUser | null>("directus-user", () => null);
-    const isWebSocketConnected = useState<boolean>("directus-ws-connected", () => false);
+    const isAuthenticatedState = useState<boolean>(key("directus-authenticated"), () => false);
+    const currentUser = useState<DirectusUser | null>(key("directus-user"), () => null);
+    const isWebSocketConnected = useState<boolean>(key("directus-ws-connected"), () => false);
+
+    // Mutations waiting for connectivity, see useDirectusOfflineQueue()
+    const offline = createOfflineQueue(nuxtApp, name, directusClient, isWebSocketConnected, currentUser);
+
+    // Set once the session was resolved, so the client can reuse the server's result from the payload
+    const isAuthResolved = useState<boolean>(key("directus-auth-resolved"), () => false);
 
     // Initialize WebSocket connection (client-only)
     const initializeWebSocket = () => {
-        if (!import.meta.client) return;
+        if (!import.meta.client || !options.realtime) return;
 
         try {
             directusClient.connect();
 
             directusClient.onWebSocket("open", () => {
                 if (import.meta.dev) {
-                    console.log("[Directus] WebSocket connection established");
+                    console.log(`${logPrefix} WebSocket connection established`);
                 }
                 isWebSocketConnected.value = true;
             });
 
             directusClient.onWebSocket("close", () => {
                 if (import.meta.dev) {
-                    console.log("[Directus] WebSocket connection closed");
+                    console.log(`${logPrefix} WebSocket connection closed`);
                 }
                 isWebSocketConnected.value = false;
             });
 
             directusClient.onWebSocket("error", (error) => {
-                console.error("[Directus] WebSocket error:", error);
+                console.error(`${logPrefix} WebSocket error:`, error);
                 isWebSocketConnected.value = false;
             });
 
             directusClient.onWebSocket("message", (message) => {
                 if (import.meta.dev) {
-                    console.log("[Directus] WebSocket message:", message);
+                    console.log(`${logPrefix} WebSocket message:`, message);
                 }
             });
         } catch (error) {
-            console.error("[Directus] WebSocket connection failed:", error);
+            console.error(`${logPrefix} WebSocket connection failed:`, error);
+        }
+    };
+
+    // Cached reads are filtered by the permissions of the user, so they are dropped when the user changes
+    const setCurrentUser = (user: DirectusUser | null) => {
+        if ((currentUser.value?.id ?? null) !== (user?.id ?? null)) {
+            getDirectusCache(name, nuxtApp).invalidateAll();
+        }
+
+        isAuthenticatedState.value = !!user;
+        currentUser.value = user;
+    };
+
+    // Forget the tokens of this instance; the refresh token cookie only exists on the default instance's domain
+    const clearSession = () => {
+        if (!isAuthEnabled) return;
+
+        storage.set(null);
+
+        if (!isSessionMode && name === DEFAULT_INSTANCE) {
+            const refreshTokenCookie = useCookie("directus_refresh_token");
+            refreshTokenCookie.value = null;
         }
     };
 
     // Check authentication status
     const checkAuthStatus = async () => {
+        // `static` and `none` instances have no user session to check
+        if (!isAuthEnabled) {
+            isAuthResolved.value = true;
+            return false;
+        }
+
         try {
-            const me = await directusClient.request(readMe());
-            isAuthenticatedState.value = true;
-            currentUser.value = me as DirectusUser;
+            // The browser cannot read the httpOnly tokens in session mode, so ask the Nitro route
+            const me = session && import.meta.client ? await $fetch<DirectusUser>(session.route("me")) : await directusClient.request(readMe());
+            setCurrentUser(me as DirectusUser);
+            isAuthResolved.value = true;
 
             // Initialize WebSocket when authenticated
             if (!isWebSocketConnected.value) {
@@ -123,27 +253,25 @@ export default defineNuxtPlugin(async () => {
             // Auth failed (SDK already tried to refresh automatically)
             // Clear auth state and cookies to prevent endless loops
             if (import.meta.dev) {
-                console.log("[Directus] Authentication failed:", error);
+                console.log(`${logPrefix} Authentication failed:`, error);
             }
 
-            isAuthenticatedState.value = false;
-            currentUser.value = null;
+            setCurrentUser(null);
+            isAuthResolved.value = true;
 
             // Clear cookies on client side
             if (import.meta.client) {
-                const refreshTokenCookie = useCookie("directus_refresh_token");
-                refreshTokenCookie.value = null;
-
-                const dataCookie = useCookie("directus-data");
-                dataCookie.value = null;
+                clearSession();
             }
 
             return false;
         }
     };
 
-    // Helper to get refresh token
+    // Helper to get refresh token (not readable from JS in session mode, and only shared with the default instance's domain)
     const getRefreshToken = () => {
+        if (isSessionMode || !isAuthEnabled || name !== DEFAULT_INSTANCE) return null;
+
         const refreshToken = useCookie("directus_refresh_token", {
             default: () => null,
             secure: process.env.NODE_ENV === "production",
@@ -153,24 +281,182 @@ export default defineNuxtPlugin(async () => {
         return refreshToken.value;
     };
 
-    // Auto-check auth status on plugin setup (only on client-side)
-    if (import.meta.client) {
-        await checkAuthStatus();
-    }
+    // Token for URLs the SDK does not request itself, like asset URLs. Static tokens are private and the
+    // session tokens not readable, their assets are authenticated by the proxy instead.
+    const getAccessToken = () => {
+        if (!isAuthEnabled || isSessionMode) return null;
+
+        const data = storage.get();
+        return data && typeof data === "object" ? ((data as AuthenticationData).access_token ?? null) : null;
+    };
+
+    // Resolve the session on the server; the state is transferred to the client in the Nuxt payload
+    const resolve = async () => {
+        // During SSR in session mode, authenticate the client with the access token from the httpOnly cookie
+        if (import.meta.server && isSessionMode) {
+            const event = useRequestEvent(nuxtApp);
+            const { getSessionToken } = await import("./server/session");
+            const accessToken = event ? await getSessionToken(event) : null;
+
+            if (accessToken) {
+                storage.set({ access_token: accessToken, refresh_token: null, expires: null, expires_at: null });
+            }
+        }
+
+        if (import.meta.server) {
+            await checkAuthStatus();
+        } else if (nuxtApp.isHydrating && isAuthResolved.value) {
+            // Server already resolved the session, only connect the WebSocket
+            if (isAuthenticatedState.value) {
+                initializeWebSocket();
+            }
+        } else {
+            await checkAuthStatus();
+        }
+
+        // Instances without a user session connect without waiting for a login
+        if (import.meta.client && !isAuthEnabled) {
+            initializeWebSocket();
+        }
+    };
 
     return {
-        provide: {
-            directus: directusClient,
-            directusAuth: {
-                isAuthenticated: readonly(isAuthenticatedState),
-                currentUser: readonly(currentUser),
-                checkAuthStatus,
-                getRefreshToken,
+        name,
+        publicUrl: options.publicUrl,
+        resolve,
+        client: directusClient,
+        auth: {
+            isAuthenticated: readonly(isAuthenticatedState),
+            currentUser: readonly(currentUser),
+            checkAuthStatus,
+            clearSession,
+            getRefreshToken,
+            getAccessToken,
+            isSessionMode,
+            sessionRoute: (route: "login" | "logout" | "refresh" | "me") => session?.route(route) ?? "",
+            authMode: options.authMode,
+        },
+        ws: {
+            isConnected: readonly(isWebSocketConnected),
+            initialize: initializeWebSocket,
+        },
+        offline,
+        transport: {
+            onRequest: (transformer: RequestTransformer) => {
+                requestTransformers.add(transformer);
+                return () => requestTransformers.delete(transformer);
             },
-            directusWs: {
-                isConnected: readonly(isWebSocketConnected),
-                initialize: initializeWebSocket,
+            onResponse: (transformer: ResponseTransformer) => {
+                responseTransformers.add(transformer);
+                return () => responseTransformers.delete(transformer);
             },
         },
     };
+};
+
+export type DirectusInstance = ReturnType<typeof createDirectusInstance>;
+
+const toWebSocketUrl = (url: string) => url.replace(/^http/, "ws") + "/websocket";
+
+export default defineNuxtPlugin(async (nuxtApp) => {
+    const config = useRuntimeConfig();
+
+    // With the proxy enabled, the browser talks to the Nitro route and the server to the private Directus URL
+    const proxyConfig = config.public.directus?.proxy;
+    const isProxied = !!proxyConfig?.enabled;
+
+    // Get API URL from runtime config (must be configured in nuxt.config.ts unless proxied)
+    let apiUrl = config.public.directusUrl;
+
+    if (isProxied) {
+        apiUrl = import.meta.server ? config.directus?.url || config.public.directusUrl : `${useRequestURL().origin}${proxyConfig?.path || "/api/_directus"}`;
+    }
+
+    if (!apiUrl) {
+        throw new Error("[Directus] NUXT_PUBLIC_DIRECTUS_URL is not configured. Please set it in your nuxt.config.ts runtimeConfig.public.directusUrl");
+    }
+
+    if (import.meta.client && import.meta.dev) {
+        console.log("[Directus] Using API URL:", apiUrl);
+    }
+
+    // WebSocket URL - use direct Directus URL or custom WS URL
+    // WebSockets cannot be proxied through Nitro, so we need to connect directly
+    const wsBaseUrl = config.public.directusWsUrl || config.public.directusUrl || apiUrl;
+    const wsUrl = toWebSocketUrl(wsBaseUrl);
+
+    if (import.meta.client && import.meta.dev) {
+        console.log("[Directus] WebSocket URL:", wsUrl);
+    }
+
+    // The preview cookie is httpOnly and signed, so the server checks it and the payload carries the version
+    if (import.meta.server && config.public.directus?.preview?.enabled) {
+        const event = useRequestEvent(nuxtApp);
+        const { getPreviewVersion } = await import("./server/preview");
+        usePreviewVersion().value = event ? await getPreviewVersion(event) : null;
+
+        // Pages rendered with drafts must not be stored by shared caches and served to other visitors
+        if (event && usePreviewVersion().value) {
+            setResponseHeader(event, "cache-control", "private, no-store");
+        }
+    }
+
+    // Session mode keeps the tokens in httpOnly cookies behind the module's Nitro routes
+    const sessionConfig = config.public.directus?.auth?.session;
+
+    const instances: Record<string, DirectusInstance> = {
+        [DEFAULT_INSTANCE]: createDirectusInstance(nuxtApp, {
+            name: DEFAULT_INSTANCE,
+            apiUrl,
+            publicUrl: isProxied ? proxyConfig?.path || "/api/_directus" : config.public.directusUrl,
+            wsUrl,
+            authMode: config.public.directus?.auth?.mode || "cookie",
+            // Only SSR uses the static token, the proxy adds it to browser reads
+            token: import.meta.server ? config.directus?.staticToken : undefined,
+            realtime: true,
+            session: sessionConfig?.enabled
+                ? {
+                      route: (route) => `${sessionConfig.routePrefix || "/api/_directus/auth"}/${route}`,
+                  }
+                : undefined,
+        }),
+    };
+
+    // Additional named instances declared in the module options
+    for (const [name, instanceConfig] of Object.entries<DirectusInstanceRuntimeConfig>(config.public.directus?.instances || {})) {
+        if (name === DEFAULT_INSTANCE) continue;
+
+        // The token of a static instance is private, so the browser goes through its proxy route
+        const authMode = instanceConfig.authMode || "cookie";
+        const instanceProxyPath = `${proxyConfig?.path || "/api/_directus"}-${name}`;
+        const isInstanceProxied = authMode === "static" && import.meta.client;
+
+        instances[name] = createDirectusInstance(nuxtApp, {
+            name,
+            apiUrl: isInstanceProxied ? `${useRequestURL().origin}${instanceProxyPath}` : instanceConfig.url,
+            publicUrl: authMode === "static" ? instanceProxyPath : instanceConfig.url,
+            wsUrl: toWebSocketUrl(instanceConfig.wsUrl || instanceConfig.url),
+            authMode,
+            token: import.meta.server ? config.directus?.instances?.[name]?.token : undefined,
+            realtime: instanceConfig.realtime ?? true,
+        });
+    }
+
+    await Promise.all(Object.values(instances).map((instance) => instance.resolve()));
+
+    // Replay mutations queued in an earlier visit once the session is known
+    if (import.meta.client && config.public.directus?.offline?.enabled) {
+        Object.values(instances).forEach((instance) => instance.offline.start());
+    }
+
+    const defaultInstance = instances[DEFAULT_INSTANCE]!;
+
+    return {
+        provide: {
+            directus: defaultInstance.client,
+            directusAuth: defaultInstance.auth,
+            directusWs: defaultInstance.ws,
+            directusInstances: instances,
+        },
+    };
 });
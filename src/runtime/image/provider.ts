@@ -0,0 +1,58 @@
+import { useRuntimeConfig } from "#app";
+import { buildAssetUrl, type DirectusAssetOptions, type DirectusAssetTransform } from "../utils/assets";
+import { getDirectusInstance } from "../utils/instances";
+
+interface ImageModifiers {
+    width?: number | string;
+    height?: number | string;
+    fit?: string;
+    format?: string;
+    quality?: number | string;
+    /**
+     * Preset from the `image.presets` module option
+     */
+    preset?: string;
+    /**
+     * Key of a storage asset preset configured in Directus
+     */
+    key?: string;
+    /**
+     * Named Directus instance serving the file
+     */
+    instance?: string;
+    /**
+     * Add the user's access token for files that are not public, as `getAssetUrl` does
+     */
+    accessToken?: boolean | string;
+}
+
+const FITS = ["cover", "contain", "inside", "outside"];
+const FORMATS = ["auto", "jpg", "png", "webp", "tiff", "avif"];
+
+const toNumber = (value: number | string | undefined) => (value === undefined || value === "" ? undefined : Number(value));
+
+/**
+ * `@nuxt/image` provider serving file ids from Directus, registered as `nuxtDirectus`
+ */
+export const getImage = (src: string, { modifiers = {} }: { modifiers?: ImageModifiers } = {}) => {
+    const { preset, instance, key, accessToken, ...transform } = modifiers;
+    const presets = useRuntimeConfig().public.directus?.image?.presets ?? {};
+    const format = transform.format === "jpeg" ? "jpg" : transform.format;
+
+    const options: DirectusAssetOptions = {
+        ...(preset ? presets[preset] : undefined),
+        ...(key ? { key } : {}),
+        ...(transform.width ? { width: toNumber(transform.width) } : {}),
+        ...(transform.height ? { height: toNumber(transform.height) } : {}),
+        ...(transform.quality ? { quality: toNumber(transform.quality) } : {}),
+        // Directus rejects values it does not know, e.g. `fill` or `jpeg`
+        ...(transform.fit && FITS.includes(transform.fit) ? { fit: transform.fit as DirectusAssetTransform["fit"] } : {}),
+        ...(format && FORMATS.includes(format) ? { format: format as DirectusAssetTransform["format"] } : {}),
+        // Modifiers set as attributes arrive as strings
+        accessToken: accessToken === true || accessToken === "true",
+    };
+
+    const { publicUrl, auth } = getDirectusInstance(instance);
+
+    return { url: buildAssetUrl(publicUrl, src.replace(/^\//, ""), options, auth.getAccessToken()) };
+};
@@ -0,0 +1,26 @@
+import { defineNuxtPlugin, useRuntimeConfig } from "#app";
+import { isInPreviewFrame, parsePreviewMessage, refreshPreviewData } from "./utils/live-preview";
+
+// Refetches the module's data composables when the Directus app saves while showing the page in its live preview panel
+export default defineNuxtPlugin((nuxtApp) => {
+    if (!isInPreviewFrame()) return;
+
+    const config = useRuntimeConfig();
+    const origin = config.public.directus?.preview?.origin || (config.public.directusUrl ? new URL(config.public.directusUrl).origin : "");
+
+    if (!origin) {
+        console.warn("[Directus] Live preview needs `directusUrl` or the `preview.origin` option to accept messages from the Directus app");
+        return;
+    }
+
+    window.addEventListener("message", (event) => {
+        if (event.origin !== origin) return;
+
+        const message = parsePreviewMessage(event.data);
+        if (!message) return;
+
+        nuxtApp.runWithContext(() => refreshPreviewData(message.collection)).catch((error) => {
+            console.error("[Directus] Live preview refresh failed:", error);
+        });
+    });
+});
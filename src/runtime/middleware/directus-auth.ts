@@ -1,5 +1,6 @@
 import { defineNuxtRouteMiddleware, navigateTo, useRuntimeConfig, useCookie, useNuxtApp } from "#app";
 import { useDirectusAuth } from "../composables/useDirectusAuth";
+import { getUserRoles } from "../utils/roles";
 
 export interface PageMetaAuth {
     /**
@@ -45,7 +46,8 @@ declare module "#app" {
 export default defineNuxtRouteMiddleware(async (to, from) => {
     const { isAuthenticated } = useDirectusAuth();
     const config = useRuntimeConfig();
-    const { $directusAuth } = useNuxtApp();
+    const nuxtApp = useNuxtApp();
+    const { $directusAuth } = nuxtApp;
 
     const { loginPath, registerPath, afterLoginPath } = config.public.directus?.auth || {
         loginPath: "/login",
@@ -88,8 +90,12 @@ export default defineNuxtRouteMiddleware(async (to, from) => {
     }
 
     try {
-        // Always check fresh auth status on route change to detect token expiry/refresh failures
-        await $directusAuth.checkAuthStatus();
+        // Always check fresh auth status on route change to detect token expiry/refresh failures.
+        // The initial navigation reuses the session the plugin resolved on the server, so the
+        // server render and the hydrating client take the same decision.
+        if (import.meta.client && !nuxtApp.isHydrating) {
+            await $directusAuth.checkAuthStatus();
+        }
 
         const authenticated = isAuthenticated.value;
 
@@ -157,33 +163,8 @@ export default defineNuxtRouteMiddleware(async (to, from) => {
                 const currentUser = $directusAuth.currentUser.value;
 
                 if (currentUser) {
-                    // Extract user's role(s) using configured field
-                    const roleField = permissionsConfig.field || "role";
-                    let userRoleValue = currentUser[roleField];
-
-                    // Apply transform function if configured
-                    if (permissionsConfig.transform && typeof permissionsConfig.transform === "function") {
-                        try {
-                            userRoleValue = permissionsConfig.transform(userRoleValue, currentUser);
-                        } catch (e) {
-                            console.error("[directus-auth middleware] Error in transform function:", e);
-                        }
-                    }
-
-                    // Normalize to array for consistent checking
-                    let userRoles: string[];
-                    if (Array.isArray(userRoleValue)) {
-                        userRoles = userRoleValue;
-                    } else if (userRoleValue != null) {
-                        userRoles = [userRoleValue];
-                    } else {
-                        userRoles = [];
-                    }
-
-                    // Apply mapping to each role if configured
-                    if (permissionsConfig.mapping) {
-                        userRoles = userRoles.map((role) => permissionsConfig.mapping![role] || role);
-                    }
+                    // Resolve user's role(s) using configured field, transform and mapping
+                    const userRoles = getUserRoles(currentUser, permissionsConfig);
 
                     // Check role requirements
                     if (authMeta.roles && authMeta.roles.length > 0) {
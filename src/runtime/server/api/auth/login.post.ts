@@ -0,0 +1,24 @@
+import { defineEventHandler, readBody, createError } from "h3";
+import { directusFetch, setSessionCookies, type DirectusAuthResult } from "../../session";
+
+export default defineEventHandler(async (event) => {
+    const body = await readBody<{ email?: string; password?: string; otp?: string }>(event);
+
+    if (!body?.email || !body?.password) {
+        throw createError({ statusCode: 400, statusMessage: "Email and password are required" });
+    }
+
+    const data = await directusFetch<DirectusAuthResult>("/auth/login", {
+        method: "POST",
+        body: {
+            email: body.email,
+            password: body.password,
+            ...(body.otp ? { otp: body.otp } : {}),
+            mode: "json",
+        },
+    });
+
+    setSessionCookies(event, data);
+
+    return { expires: data.expires };
+});
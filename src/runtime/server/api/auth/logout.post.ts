@@ -0,0 +1,20 @@
+import { defineEventHandler, getCookie } from "h3";
+import { directusFetch, clearSessionCookies, REFRESH_TOKEN_COOKIE } from "../../session";
+
+export default defineEventHandler(async (event) => {
+    const refreshToken = getCookie(event, REFRESH_TOKEN_COOKIE);
+
+    try {
+        if (refreshToken) {
+            await directusFetch("/auth/logout", {
+                method: "POST",
+                body: { refresh_token: refreshToken, mode: "json" },
+            });
+        }
+    } finally {
+        // Clear the session even if Directus already invalidated the token
+        clearSessionCookies(event);
+    }
+
+    return { success: true };
+});
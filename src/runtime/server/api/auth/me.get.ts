@@ -0,0 +1,19 @@
+import { defineEventHandler, createError } from "h3";
+import { directusFetch, getSessionToken, refreshSession } from "../../session";
+
+export default defineEventHandler(async (event) => {
+    const token = await getSessionToken(event);
+
+    if (!token) {
+        throw createError({ statusCode: 401, statusMessage: "Not authenticated" });
+    }
+
+    try {
+        return await directusFetch("/users/me", { token });
+    } catch (error: any) {
+        if (error?.statusCode !== 401) throw error;
+
+        // Access token was rejected, retry once with a refreshed one
+        return await directusFetch("/users/me", { token: await refreshSession(event) });
+    }
+});
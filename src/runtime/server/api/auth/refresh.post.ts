@@ -0,0 +1,8 @@
+import { defineEventHandler } from "h3";
+import { refreshSession } from "../../session";
+
+export default defineEventHandler(async (event) => {
+    await refreshSession(event);
+
+    return { success: true };
+});
@@ -0,0 +1,16 @@
+import { createError, defineEventHandler, getQuery, sendRedirect } from "h3";
+import { useRuntimeConfig } from "#imports";
+import { getPreviewRedirect, isValidPreviewSecret, setPreviewCookie } from "../../preview";
+
+export default defineEventHandler(async (event) => {
+    const { secret, version, redirect } = getQuery(event);
+
+    if (!(await isValidPreviewSecret(secret))) {
+        throw createError({ statusCode: 401, statusMessage: "Invalid preview secret" });
+    }
+
+    const defaultVersion = useRuntimeConfig().public.directus?.preview?.version || "draft";
+    await setPreviewCookie(event, typeof version === "string" && version ? version : defaultVersion);
+
+    return sendRedirect(event, getPreviewRedirect(redirect), 307);
+});
@@ -0,0 +1,8 @@
+import { defineEventHandler, getQuery, sendRedirect } from "h3";
+import { clearPreviewCookie, getPreviewRedirect } from "../../preview";
+
+export default defineEventHandler((event) => {
+    clearPreviewCookie(event);
+
+    return sendRedirect(event, getPreviewRedirect(getQuery(event).redirect), 307);
+});
@@ -0,0 +1,62 @@
+import { createError, defineEventHandler, getRequestHeader, proxyRequest, setResponseHeader } from "h3";
+import { useRuntimeConfig } from "#imports";
+import { getDirectusUrl } from "../config";
+import { getPreviewVersion } from "../preview";
+import { getSessionToken } from "../session";
+
+// Static tokens are meant for reading, writes through the proxy stay on the public role
+const READ_METHODS = new Set(["GET", "HEAD", "SEARCH"]);
+
+export default defineEventHandler(async (event) => {
+    const config = useRuntimeConfig();
+    const proxyPath = config.public.directus?.proxy?.path || "/api/_directus";
+    const sessionEnabled = !!config.public.directus?.auth?.session?.enabled;
+    const isStatic = config.public.directus?.auth?.mode === "static";
+
+    // Named static instances are proxied at `${proxyPath}-${name}`
+    const instanceName = event.path.startsWith(`${proxyPath}-`) ? event.path.slice(proxyPath.length + 1).split(/[/?]/)[0] : undefined;
+    const instance = instanceName ? config.public.directus?.instances?.[instanceName] : undefined;
+
+    if (instanceName && instance?.authMode !== "static") {
+        throw createError({ statusCode: 404, statusMessage: `[Directus] Unknown static instance "${instanceName}"` });
+    }
+
+    // Strip the proxy prefix, keeping the query string
+    const prefix = instanceName ? `${proxyPath}-${instanceName}` : proxyPath;
+    const baseUrl = instance ? instance.url.replace(/\/$/, "") : getDirectusUrl();
+    const path = event.path.slice(prefix.length) || "/";
+    const target = baseUrl + path;
+
+    const headers: Record<string, string> = {};
+
+    if (!getRequestHeader(event, "authorization")) {
+        if (instanceName || isStatic) {
+            const token = instanceName ? config.directus?.instances?.[instanceName]?.token : config.directus?.staticToken;
+            if (token && READ_METHODS.has(event.method)) {
+                headers.authorization = `Bearer ${token}`;
+            }
+        } else if (sessionEnabled) {
+            // In session mode the browser has no token, so authenticate with the httpOnly session
+            const token = await getSessionToken(event);
+            if (token) {
+                headers.authorization = `Bearer ${token}`;
+            }
+        }
+    }
+
+    const isPreview = !!config.public.directus?.preview?.enabled && !!(await getPreviewVersion(event));
+
+    // While preview is on, item reads of the default instance see drafts through the preview token
+    const previewToken = config.directus?.previewToken;
+    if (!instanceName && previewToken && isPreview && READ_METHODS.has(event.method) && path.startsWith("/items/")) {
+        headers.authorization = `Bearer ${previewToken}`;
+    }
+
+    return proxyRequest(event, target, {
+        headers,
+        // Cookies set by Directus belong to the Nuxt host now
+        cookieDomainRewrite: { "*": "" },
+        // Responses with drafts must not be stored by shared caches, whatever Directus sent
+        onResponse: isPreview ? () => setResponseHeader(event, "cache-control", "private, no-store") : undefined,
+    });
+});
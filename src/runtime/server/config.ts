@@ -0,0 +1,17 @@
+import { createError } from "h3";
+import { useRuntimeConfig } from "#imports";
+
+/**
+ * Base URL of the Directus instance as seen from the server.
+ * Prefers the private `runtimeConfig.directus.url` over the public `directusUrl`.
+ */
+export const getDirectusUrl = () => {
+    const config = useRuntimeConfig();
+    const url = config.directus?.url || config.public.directusUrl;
+
+    if (!url) {
+        throw createError({ statusCode: 500, statusMessage: "[Directus] NUXT_DIRECTUS_URL or NUXT_PUBLIC_DIRECTUS_URL is not configured" });
+    }
+
+    return url.replace(/\/$/, "");
+};
@@ -0,0 +1,90 @@
+import { createError, deleteCookie, getCookie, setCookie, type H3Event } from "h3";
+import { useRuntimeConfig } from "#imports";
+
+export const PREVIEW_COOKIE = "directus-preview";
+
+// Directus' live preview embeds the site in a cross-site iframe, which only sends `SameSite=None` cookies
+const cookieOptions = {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === "production",
+    sameSite: process.env.NODE_ENV === "production" ? ("none" as const) : ("lax" as const),
+    path: "/",
+};
+
+const encoder = new TextEncoder();
+
+const getPreviewSecret = () => {
+    const secret = useRuntimeConfig().directus?.previewSecret;
+
+    if (!secret) {
+        throw createError({ statusCode: 500, statusMessage: "[Directus] NUXT_DIRECTUS_PREVIEW_SECRET is not configured" });
+    }
+
+    return secret;
+};
+
+const sign = async (value: string, secret: string) => {
+    const key = await crypto.subtle.importKey("raw", encoder.encode(secret), { name: "HMAC", hash: "SHA-256" }, false, ["sign"]);
+    const signature = await crypto.subtle.sign("HMAC", key, encoder.encode(value));
+    return btoa(String.fromCharCode(...new Uint8Array(signature)))
+        .replace(/\+/g, "-")
+        .replace(/\//g, "_")
+        .replace(/=+$/, "");
+};
+
+const timingSafeEqual = (a: string, b: string) => {
+    if (a.length !== b.length) return false;
+
+    let difference = 0;
+    for (let index = 0; index < a.length; index++) {
+        difference |= a.charCodeAt(index) ^ b.charCodeAt(index);
+    }
+    return difference === 0;
+};
+
+/**
+ * Check the secret sent by Directus with the preview URL
+ */
+export const isValidPreviewSecret = async (secret: unknown) => {
+    const previewSecret = getPreviewSecret();
+    if (typeof secret !== "string") return false;
+
+    // Compare signatures of equal length, so the time taken does not reveal the secret
+    const [expected, actual] = await Promise.all([sign(previewSecret, previewSecret), sign(secret, previewSecret)]);
+    return timingSafeEqual(expected, actual);
+};
+
+/**
+ * Turn on preview mode for the given content version with a signed httpOnly cookie
+ */
+export const setPreviewCookie = async (event: H3Event, version: string) => {
+    const maxAge = useRuntimeConfig().public.directus?.preview?.maxAge ?? 60 * 60;
+    setCookie(event, PREVIEW_COOKIE, `${version}.${await sign(version, getPreviewSecret())}`, { ...cookieOptions, maxAge });
+};
+
+export const clearPreviewCookie = (event: H3Event) => {
+    deleteCookie(event, PREVIEW_COOKIE, cookieOptions);
+};
+
+/**
+ * Content version of an active preview, `null` without a valid preview cookie
+ */
+export const getPreviewVersion = async (event: H3Event) => {
+    const cookie = getCookie(event, PREVIEW_COOKIE);
+    const separator = cookie?.lastIndexOf(".") ?? -1;
+    if (!cookie || separator <= 0) return null;
+
+    const version = cookie.slice(0, separator);
+    const signature = cookie.slice(separator + 1);
+
+    try {
+        return timingSafeEqual(await sign(version, getPreviewSecret()), signature) ? version : null;
+    } catch {
+        return null;
+    }
+};
+
+/**
+ * Only redirect to paths of this site, never to other origins
+ */
+export const getPreviewRedirect = (redirect: unknown) => (typeof redirect === "string" && redirect.startsWith("/") && !redirect.startsWith("//") && !redirect.startsWith("/\\") ? redirect : "/");
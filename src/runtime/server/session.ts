@@ -0,0 +1,113 @@
+import { createError, deleteCookie, getCookie, setCookie, type H3Event, type HTTPMethod } from "h3";
+import { useRuntimeConfig } from "#imports";
+import { getDirectusUrl } from "./config";
+
+export const ACCESS_TOKEN_COOKIE = "directus-access-token";
+export const REFRESH_TOKEN_COOKIE = "directus-refresh-token";
+
+export interface DirectusAuthResult {
+    access_token: string;
+    refresh_token: string;
+    expires: number;
+}
+
+const cookieOptions = {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === "production",
+    sameSite: "lax" as const,
+    path: "/",
+};
+
+/**
+ * Call a Directus endpoint and turn Directus errors into H3 errors with the same status
+ */
+export const directusFetch = async <T>(path: string, options: { method?: HTTPMethod; body?: Record<string, unknown>; token?: string | null } = {}) => {
+    try {
+        const response = await $fetch<{ data: T }>(`${getDirectusUrl()}${path}`, {
+            method: options.method || "GET",
+            body: options.body,
+            headers: options.token ? { Authorization: `Bearer ${options.token}` } : undefined,
+        });
+        return response?.data;
+    } catch (error: any) {
+        throw createError({
+            statusCode: error?.response?.status || 500,
+            statusMessage: error?.data?.errors?.[0]?.message || error?.message || "Directus request failed",
+            data: error?.data,
+        });
+    }
+};
+
+/**
+ * Store the tokens returned by `/auth/login` or `/auth/refresh` in httpOnly cookies
+ */
+export const setSessionCookies = (event: H3Event, data: DirectusAuthResult) => {
+    const config = useRuntimeConfig();
+    const maxAge = config.public.directus?.auth?.session?.maxAge ?? 60 * 60 * 24 * 7;
+
+    setCookie(event, ACCESS_TOKEN_COOKIE, data.access_token, {
+        ...cookieOptions,
+        maxAge: Math.floor(data.expires / 1000),
+    });
+
+    setCookie(event, REFRESH_TOKEN_COOKIE, data.refresh_token, {
+        ...cookieOptions,
+        maxAge,
+    });
+
+    // Make the new token visible to handlers running later in the same request
+    event.context.directusAccessToken = data.access_token;
+};
+
+export const clearSessionCookies = (event: H3Event) => {
+    deleteCookie(event, ACCESS_TOKEN_COOKIE, cookieOptions);
+    deleteCookie(event, REFRESH_TOKEN_COOKIE, cookieOptions);
+    event.context.directusAccessToken = null;
+};
+
+/**
+ * Exchange the refresh token cookie for a new token pair
+ */
+export const refreshSession = async (event: H3Event) => {
+    const refreshToken = getCookie(event, REFRESH_TOKEN_COOKIE);
+
+    if (!refreshToken) {
+        throw createError({ statusCode: 401, statusMessage: "No refresh token" });
+    }
+
+    try {
+        const data = await directusFetch<DirectusAuthResult>("/auth/refresh", {
+            method: "POST",
+            body: { refresh_token: refreshToken, mode: "json" },
+        });
+        setSessionCookies(event, data);
+        return data.access_token;
+    } catch (error) {
+        clearSessionCookies(event);
+        throw error;
+    }
+};
+
+/**
+ * Current access token, refreshed through the refresh token cookie when it expired
+ */
+export const getSessionToken = async (event: H3Event) => {
+    if (event.context.directusAccessToken !== undefined) {
+        return event.context.directusAccessToken as string | null;
+    }
+
+    const accessToken = getCookie(event, ACCESS_TOKEN_COOKIE);
+    if (accessToken) {
+        return accessToken;
+    }
+
+    if (!getCookie(event, REFRESH_TOKEN_COOKIE)) {
+        return null;
+    }
+
+    try {
+        return await refreshSession(event);
+    } catch {
+        return null;
+    }
+};
@@ -0,0 +1,130 @@
+import { createError, getCookie, getRequestHeader, type H3Event } from "h3";
+import { createDirectus, readMe, rest, staticToken, type RequestTransformer } from "@directus/sdk";
+import { useRuntimeConfig } from "#imports";
+import type { ResolvedDirectusSchema } from "../../types";
+import { getDirectusUrl } from "../config";
+import { getSessionToken } from "../session";
+import { getDirectusCookieHeader } from "../../utils/cookies";
+import { getUserRoles } from "../../utils/roles";
+
+interface DirectusUser {
+    id: string;
+    email: string;
+    first_name?: string;
+    last_name?: string;
+    role?: string;
+    [key: string]: any;
+}
+
+/**
+ * Access token of the current request: the `Authorization` header, the httpOnly
+ * session (session mode) or the SDK's `directus-data` cookie (cookie mode)
+ */
+const getRequestToken = async (event: H3Event) => {
+    const authorization = getRequestHeader(event, "authorization");
+    if (authorization?.startsWith("Bearer ")) {
+        return authorization.slice("Bearer ".length);
+    }
+
+    const config = useRuntimeConfig();
+    if (config.public.directus?.auth?.session?.enabled) {
+        return await getSessionToken(event);
+    }
+
+    const data = getCookie(event, "directus-data");
+    if (data) {
+        try {
+            return (JSON.parse(data) as { access_token?: string | null }).access_token || null;
+        } catch {
+            return null;
+        }
+    }
+
+    return null;
+};
+
+/**
+ * Directus client acting as the user of the current request.
+ * Forwards the user's access token and Directus cookies.
+ */
+export const useDirectusServer = (event: H3Event) => {
+    const forwardCredentials: RequestTransformer = async (options) => {
+        const headers = new Headers(options.headers);
+
+        const token = await getRequestToken(event);
+        if (token) {
+            headers.set("authorization", `Bearer ${token}`);
+        }
+
+        const cookies = getDirectusCookieHeader(getRequestHeader(event, "cookie"));
+        if (cookies) {
+            headers.set("cookie", cookies);
+        }
+
+        return { ...options, headers };
+    };
+
+    return createDirectus<ResolvedDirectusSchema>(getDirectusUrl()).with(rest({ onRequest: forwardCredentials }));
+};
+
+/**
+ * Directus client authenticated with the private static token (`runtimeConfig.directus.token`)
+ */
+export const useDirectusAdmin = () => {
+    const config = useRuntimeConfig();
+    const token = config.directus?.token;
+
+    if (!token) {
+        throw createError({ statusCode: 500, statusMessage: "[Directus] NUXT_DIRECTUS_TOKEN is not configured" });
+    }
+
+    return createDirectus<ResolvedDirectusSchema>(getDirectusUrl()).with(staticToken(token)).with(rest());
+};
+
+/**
+ * Current user of the request, or `null` when not authenticated (cached per request)
+ */
+export const getDirectusUser = async (event: H3Event): Promise<DirectusUser | null> => {
+    if (event.context.directusUser !== undefined) {
+        return event.context.directusUser;
+    }
+
+    try {
+        event.context.directusUser = (await useDirectusServer(event).request(readMe())) as DirectusUser;
+    } catch {
+        event.context.directusUser = null;
+    }
+
+    return event.context.directusUser;
+};
+
+/**
+ * Current user of the request, throws a 401 error when not authenticated
+ */
+export const requireDirectusUser = async (event: H3Event) => {
+    const user = await getDirectusUser(event);
+
+    if (!user) {
+        throw createError({ statusCode: 401, statusMessage: "Unauthorized" });
+    }
+
+    return user;
+};
+
+/**
+ * Current user of the request, throws a 403 error unless they have ONE of the given roles.
+ * Roles are resolved with the `auth.permissions` field, transform and mapping.
+ */
+export const requireDirectusRole = async (event: H3Event, roles: string | string[]) => {
+    const user = await requireDirectusUser(event);
+    const config = useRuntimeConfig();
+
+    const requiredRoles = Array.isArray(roles) ? roles : [roles];
+    const userRoles = getUserRoles(user, config.public.directus?.auth?.permissions);
+
+    if (!requiredRoles.some((role) => userRoles.includes(role))) {
+        throw createError({ statusCode: 403, statusMessage: "Forbidden" });
+    }
+
+    return user;
+};
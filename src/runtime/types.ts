@@ -1,28 +1,220 @@
-// Export generated Directus schema types
-// These are generated from the OpenAPI schema using openapi-typescript
+import type { AuthenticationClient, CollectionType, DirectusClient, RegularCollections, RestClient, SingletonCollections, WebSocketClient } from "@directus/sdk";
+import type { DirectusAssetTransform } from "./utils/assets";
 
-export type { components, paths } from "../../../schema/schema";
+/**
+ * Directus schema used to type the client and composables.
+ *
+ * Collections are added through module augmentation, either by the module when
+ * `types.enabled` is true or by hand:
+ *
+ * ```ts
+ * declare module "#directus/types" {
+ *     interface DirectusSchema {
+ *         posts: Post[];
+ *         global: Global; // singleton
+ *     }
+ * }
+ * ```
+ */
+export interface DirectusSchema {}
 
-// Re-export commonly used types
-export type DirectusSchema = any; // Replace with your actual schema type
+/**
+ * The augmented `DirectusSchema`, or `any` while no collections are declared
+ */
+export type ResolvedDirectusSchema = keyof DirectusSchema extends never ? any : DirectusSchema;
+
+/**
+ * Names of the non-singleton collections in the schema
+ */
+export type DirectusCollections = RegularCollections<ResolvedDirectusSchema>;
+
+/**
+ * Names of the singleton collections in the schema
+ */
+export type DirectusSingletons = SingletonCollections<ResolvedDirectusSchema>;
+
+/**
+ * Item type of a collection in the schema
+ */
+export type DirectusCollectionItem<Collection> = CollectionType<ResolvedDirectusSchema, Collection>;
+
+/**
+ * Payload and response types of Directus Flows, by flow id or alias, added through module augmentation:
+ *
+ * ```ts
+ * declare module "#directus/types" {
+ *     interface DirectusFlows {
+ *         newsletter: { payload: { email: string }; response: { subscribed: boolean } };
+ *     }
+ * }
+ * ```
+ */
+export interface DirectusFlows {}
+
+/**
+ * Client provided by the plugin as `$directus`
+ */
+export type DirectusNuxtClient = DirectusClient<ResolvedDirectusSchema> &
+    AuthenticationClient<ResolvedDirectusSchema> &
+    RestClient<ResolvedDirectusSchema> &
+    WebSocketClient<ResolvedDirectusSchema>;
+
+/**
+ * How a Directus instance authenticates: `cookie` (SDK cookie mode), `static` (read-only token)
+ * or `none` (public role only)
+ */
+export type DirectusInstanceAuthMode = "cookie" | "static" | "none";
+
+/**
+ * Request passed to the `directus:request` hook. Handlers may change `options`, e.g. to add headers.
+ */
+export interface DirectusRequestContext {
+    /**
+     * Name of the Directus instance
+     */
+    instance: string;
+    url: string;
+    method: string;
+    /**
+     * Path relative to the Directus URL, e.g. `/items/posts/1`
+     */
+    path: string;
+    /**
+     * Collection of `/items/{collection}` requests
+     */
+    collection?: string;
+    /**
+     * Composable method such as `getItems`, or the HTTP verb (`read`, `create`, `update`, `delete`)
+     */
+    operation: string;
+    options: RequestInit;
+}
+
+/**
+ * Successful response passed to the `directus:response` hook
+ */
+export interface DirectusResponseContext extends DirectusRequestContext {
+    status: number;
+    headers: Headers;
+    /**
+     * Time until the response headers arrived, in milliseconds
+     */
+    duration: number;
+}
+
+/**
+ * Failed request passed to the `directus:error` hook, for error responses and network failures
+ */
+export interface DirectusRequestErrorContext extends DirectusRequestContext {
+    /**
+     * HTTP status, `null` when no response was received
+     */
+    status: number | null;
+    headers?: Headers;
+    duration: number;
+    error?: unknown;
+}
+
+// Maps the `/items/{collection}` paths of a generated OpenAPI schema to a Directus SDK schema
+type PathCollection<Path> = Path extends `/items/${infer Collection}` ? (Collection extends `${string}/${string}` ? never : Collection) : never;
+type PathItems<PathItem> = PathItem extends { get: { responses: { 200: { content: { "application/json": { data?: infer Data } } } } } } ? NonNullable<Data> : never;
+
+export type SchemaFromPaths<Paths> = {
+    [Path in keyof Paths as PathCollection<Path>]: PathItems<Paths[Path]>;
+};
+
+/**
+ * Public runtime configuration of a named instance, its token is kept in the private `runtimeConfig.directus.instances`
+ */
+export interface DirectusInstanceRuntimeConfig {
+    url: string;
+    wsUrl?: string;
+    authMode?: DirectusInstanceAuthMode;
+    realtime?: boolean;
+}
 
 // Extend Nuxt RuntimeConfig types
 declare module '@nuxt/schema' {
+    interface RuntimeConfig {
+        directus?: {
+            url?: string;
+            token?: string;
+            staticToken?: string;
+            previewSecret?: string;
+            previewToken?: string;
+            instances?: Record<string, { token?: string }>;
+        };
+    }
+
     interface PublicRuntimeConfig {
         directusUrl: string;
         directusWsUrl?: string;
         directus?: {
             enableGlobalMiddleware?: boolean;
+            logErrors?: boolean;
             auth?: {
+                mode?: DirectusInstanceAuthMode;
                 loginPath?: string;
                 registerPath?: string;
                 afterLoginPath?: string;
                 afterLogoutPath?: string;
                 resetPasswordUrl?: string;
                 verificationUrl?: string;
+                permissions?: {
+                    enabled?: boolean;
+                    field?: string;
+                    mapping?: Record<string, string>;
+                    transform?: (fieldValue: any, user: any) => string | string[];
+                };
+                session?: {
+                    enabled?: boolean;
+                    routePrefix?: string;
+                    maxAge?: number;
+                };
+            };
+            proxy?: {
+                enabled?: boolean;
+                path?: string;
+            };
+            cache?: {
+                enabled?: boolean;
+                ttl?: number;
             };
+            request?: {
+                timeout?: number;
+                retry?: number | false;
+                retryDelay?: number;
+            };
+            image?: {
+                presets?: Record<string, DirectusAssetTransform>;
+                widths?: number[];
+            };
+            offline?: {
+                enabled?: boolean;
+                conflictField?: string;
+            };
+            flows?: Record<string, string | { id: string; method?: "GET" | "POST" }>;
+            preview?: {
+                enabled?: boolean;
+                route?: string;
+                version?: string;
+                statusField?: string;
+                statuses?: string[];
+                maxAge?: number;
+                origin?: string;
+            };
+            instances?: Record<string, DirectusInstanceRuntimeConfig>;
         };
     }
 }
 
+// Runtime hooks called by the plugin for every REST request of a Directus client
+declare module "#app" {
+    interface RuntimeNuxtHooks {
+        "directus:request": (context: DirectusRequestContext) => void | Promise<void>;
+        "directus:response": (context: DirectusResponseContext) => void | Promise<void>;
+        "directus:error": (context: DirectusRequestErrorContext) => void | Promise<void>;
+    }
+}
+
 export {};
@@ -0,0 +1,45 @@
+export interface DirectusAssetTransform {
+    width?: number;
+    height?: number;
+    fit?: "cover" | "contain" | "inside" | "outside";
+    format?: "auto" | "jpg" | "png" | "webp" | "tiff" | "avif";
+    quality?: number;
+    /**
+     * Key of a storage asset preset configured in Directus
+     */
+    key?: string;
+}
+
+export interface DirectusAssetOptions extends DirectusAssetTransform {
+    /**
+     * Force the browser to download the file
+     */
+    download?: boolean;
+    /**
+     * Add the user's access token for files that are not public, defaults to `false`.
+     * The URL then differs per user and cannot be cached, and the token ends up in the HTML.
+     */
+    accessToken?: boolean;
+}
+
+/**
+ * Build the `/assets/:id` URL of a file with transformation parameters
+ */
+export const buildAssetUrl = (baseUrl: string, id: string, options: DirectusAssetOptions, token: string | null) => {
+    const { width, height, fit, format, quality, key, download, accessToken = false } = options;
+    const params = new URLSearchParams();
+
+    if (key) params.set("key", key);
+    if (width) params.set("width", String(Math.round(width)));
+    if (height) params.set("height", String(Math.round(height)));
+    if (fit) params.set("fit", fit);
+    if (format) params.set("format", format);
+    if (quality) params.set("quality", String(quality));
+    if (download) params.set("download", "");
+
+    // <img> requests don't carry the SDK's Authorization header; with static tokens and in session mode the proxy adds it instead
+    if (accessToken && token) params.set("access_token", token);
+
+    const query = params.toString();
+    return `${baseUrl.replace(/\/$/, "")}/assets/${encodeURIComponent(id)}${query ? `?${query}` : ""}`;
+};
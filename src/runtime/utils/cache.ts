@@ -0,0 +1,122 @@
+import { useNuxtApp, type NuxtApp } from "#app";
+
+interface DirectusCacheEntry {
+    collection: string;
+    value: unknown;
+    expiresAt: number;
+}
+
+interface DirectusInflightRequest {
+    collection: string;
+    promise: Promise<unknown>;
+    controller: AbortController;
+    consumers: number;
+}
+
+interface DirectusInstanceCache {
+    entries: Map<string, DirectusCacheEntry>;
+    inflight: Map<string, DirectusInflightRequest>;
+}
+
+// Scoped to the Nuxt app, so cached results are never shared between SSR requests
+const caches = new WeakMap<NuxtApp, Map<string, DirectusInstanceCache>>();
+
+/**
+ * Read cache and in-flight requests of a Directus instance
+ */
+export const getDirectusCache = (instance: string, nuxtApp: NuxtApp = useNuxtApp()) => {
+
+    let appCaches = caches.get(nuxtApp);
+    if (!appCaches) {
+        appCaches = new Map();
+        caches.set(nuxtApp, appCaches);
+    }
+
+    let cache = appCaches.get(instance);
+    if (!cache) {
+        cache = { entries: new Map(), inflight: new Map() };
+        appCaches.set(instance, cache);
+    }
+
+    const { entries, inflight } = cache;
+
+    // Each caller stops waiting on its own signal, the shared request is only aborted once no caller is left
+    const subscribe = <T>(key: string, pending: DirectusInflightRequest, signal?: AbortSignal) => {
+        pending.consumers++;
+        if (!signal) return pending.promise as Promise<T>;
+
+        return new Promise<T>((resolve, reject) => {
+            const onAbort = () => {
+                reject(signal.reason);
+                if (--pending.consumers === 0) {
+                    if (inflight.get(key) === pending) inflight.delete(key);
+                    pending.controller.abort(signal.reason);
+                }
+            };
+
+            if (signal.aborted) return onAbort();
+            signal.addEventListener("abort", onAbort, { once: true });
+
+            (pending.promise as Promise<T>).then(resolve, reject).finally(() => signal.removeEventListener("abort", onAbort));
+        });
+    };
+
+    /**
+     * Return the cached result of `key`, or run `request` once and share it with identical calls.
+     * `signal` aborts this call, `request` receives the signal of the shared request.
+     */
+    const cached = async <T>(collection: string, key: string, ttl: number, request: (signal: AbortSignal) => Promise<T>, signal?: AbortSignal): Promise<T> => {
+        const entry = entries.get(key);
+        if (entry && entry.expiresAt > Date.now()) {
+            return entry.value as T;
+        }
+
+        const existing = inflight.get(key);
+        if (existing) {
+            return subscribe<T>(key, existing, signal);
+        }
+
+        signal?.throwIfAborted();
+
+        const controller = new AbortController();
+        const promise: Promise<T> = request(controller.signal)
+            .then((value) => {
+                // Skip storing when the collection was invalidated while the request was running
+                if (inflight.get(key)?.promise === promise) {
+                    entries.set(key, { collection, value, expiresAt: Date.now() + ttl });
+                }
+                return value;
+            })
+            .finally(() => {
+                if (inflight.get(key)?.promise === promise) {
+                    inflight.delete(key);
+                }
+            });
+
+        // Abandoned requests reject without a caller, their rejection is not unhandled
+        promise.catch(() => {});
+
+        const pending: DirectusInflightRequest = { collection, promise, controller, consumers: 0 };
+        inflight.set(key, pending);
+        return subscribe<T>(key, pending, signal);
+    };
+
+    /**
+     * Drop the cached results and in-flight requests of a collection
+     */
+    const invalidate = (collection: string) => {
+        for (const [key, entry] of entries) {
+            if (entry.collection === collection) entries.delete(key);
+        }
+        for (const [key, pending] of inflight) {
+            if (pending.collection === collection) inflight.delete(key);
+        }
+    };
+
+    const invalidateAll = () => {
+        entries.clear();
+        inflight.clear();
+    };
+
+    return { cached, invalidate, invalidateAll };
+};
@@ -0,0 +1,33 @@
+/**
+ * Keep only the cookies Directus sets itself (`directus_refresh_token`, `directus_session_token`, ...)
+ */
+export const getDirectusCookieHeader = (cookieHeader?: string) => {
+    if (!cookieHeader) return "";
+
+    return cookieHeader
+        .split(";")
+        .map((cookie) => cookie.trim())
+        .filter((cookie) => cookie.startsWith("directus_"))
+        .join("; ");
+};
+
+/**
+ * Replace the cookies of a `Cookie` header with the values of `Set-Cookie` headers, so requests
+ * that follow a token refresh during SSR send the rotated cookies
+ */
+export const mergeSetCookies = (cookieHeader: string, setCookies: string[]) => {
+    const cookies = new Map(
+        cookieHeader
+            .split(";")
+            .map((cookie) => cookie.trim())
+            .filter(Boolean)
+            .map((cookie) => [cookie.split("=")[0]!, cookie] as const),
+    );
+
+    for (const setCookie of setCookies) {
+        const cookie = setCookie.split(";")[0]!.trim();
+        cookies.set(cookie.split("=")[0]!, cookie);
+    }
+
+    return getDirectusCookieHeader([...cookies.values()].join("; "));
+};
@@ -0,0 +1,171 @@
+import { useRuntimeConfig } from "#app";
+import type { DirectusQueuedMutation } from "./offline";
+
+/**
+ * Error entry of a Directus error response
+ */
+export interface DirectusErrorEntry {
+    message: string;
+    extensions?: {
+        code?: string;
+        field?: string;
+        type?: string;
+        [key: string]: unknown;
+    };
+}
+
+/**
+ * Validation error of a single field (`FAILED_VALIDATION`, `RECORD_NOT_UNIQUE`, ...)
+ */
+export interface DirectusFieldError {
+    field: string;
+    code: string;
+    message: string;
+    type?: string;
+}
+
+export interface DirectusErrorContext {
+    /**
+     * Collection the request was made for
+     */
+    collection?: string;
+    /**
+     * Composable method that failed, e.g. `updateOne` or `login`
+     */
+    operation?: string;
+}
+
+interface DirectusApiErrorDetails extends DirectusErrorContext {
+    status: number | null;
+    errors: DirectusErrorEntry[];
+    cause: unknown;
+}
+
+/**
+ * Normalized error thrown by the composables for failed Directus requests
+ */
+export class DirectusApiError extends Error {
+    /**
+     * HTTP status, `null` when no response was received
+     */
+    readonly status: number | null;
+    /**
+     * `extensions.code` of the first error, e.g. `INVALID_CREDENTIALS` or `FORBIDDEN`
+     */
+    readonly code: string | null;
+    readonly errors: DirectusErrorEntry[];
+    /**
+     * Validation errors by field name
+     */
+    readonly fieldErrors: Record<string, DirectusFieldError>;
+    readonly collection?: string;
+    readonly operation?: string;
+    override readonly cause: unknown;
+
+    constructor(message: string, details: DirectusApiErrorDetails) {
+        super(message);
+        this.name = "DirectusApiError";
+        this.status = details.status;
+        this.errors = details.errors;
+        this.code = details.errors[0]?.extensions?.code ?? null;
+        this.collection = details.collection;
+        this.operation = details.operation;
+        this.cause = details.cause;
+
+        this.fieldErrors = {};
+        for (const entry of details.errors) {
+            const field = entry.extensions?.field;
+            if (field && !this.fieldErrors[field]) {
+                this.fieldErrors[field] = {
+                    field,
+                    code: entry.extensions?.code ?? "UNKNOWN",
+                    message: entry.message,
+                    type: entry.extensions?.type,
+                };
+            }
+        }
+    }
+}
+
+/**
+ * Thrown by optimistic mutations once the failed change was rolled back
+ */
+export class DirectusOptimisticError extends DirectusApiError {
+    constructor(error: DirectusApiError) {
+        super(`${error.message} (optimistic change rolled back)`, error);
+        this.name = "DirectusOptimisticError";
+    }
+}
+
+/**
+ * Thrown by mutations that were added to the offline queue instead of reaching Directus
+ */
+export class DirectusOfflineError extends DirectusApiError {
+    readonly mutation: DirectusQueuedMutation;
+
+    constructor(mutation: DirectusQueuedMutation, error?: DirectusApiError) {
+        super(`${mutation.operation} on ${mutation.collection} was queued until Directus is reachable`, {
+            status: null,
+            errors: [],
+            collection: mutation.collection,
+            operation: mutation.operation,
+            cause: error,
+        });
+        this.name = "DirectusOfflineError";
+        this.mutation = mutation;
+    }
+}
+
+// SDK errors carry `errors` and `response`, $fetch errors (session routes) the parsed body in `data`
+const getErrorEntries = (error: any): DirectusErrorEntry[] => {
+    const entries = error?.errors ?? error?.data?.errors ?? error?.data?.data?.errors;
+    return Array.isArray(entries) ? entries.filter((entry) => entry && typeof entry.message === "string") : [];
+};
+
+const getErrorStatus = (error: any): number | null => {
+    const status = error?.response?.status ?? error?.status ?? error?.statusCode ?? error?.data?.statusCode;
+    return typeof status === "number" ? status : null;
+};
+
+/**
+ * Convert anything thrown by the SDK or `$fetch` into a `DirectusApiError`
+ */
+export const toDirectusApiError = (error: unknown, context: DirectusErrorContext = {}) => {
+    if (error instanceof DirectusApiError) return error;
+
+    const errors = getErrorEntries(error);
+    const message = errors[0]?.message || (error as any)?.data?.statusMessage || (error instanceof Error ? error.message : String(error)) || "Directus request failed";
+
+    return new DirectusApiError(message, {
+        ...context,
+        status: getErrorStatus(error),
+        errors,
+        cause: error,
+    });
+};
+
+/**
+ * Check for a `DirectusApiError`, optionally with a specific `extensions.code`
+ */
+export const isDirectusError = (error: unknown, code?: string): error is DirectusApiError => {
+    if (!(error instanceof DirectusApiError)) return false;
+    return !code || error.errors.some((entry) => entry.extensions?.code === code) || error.code === code;
+};
+
+/**
+ * Normalize and, when `logErrors` is enabled (default in development), log errors of a composable.
+ * Must be called during setup, as it reads the runtime config.
+ */
+export const createErrorHandler = (prefix: string) => {
+    const logErrors = useRuntimeConfig().public.directus?.logErrors ?? import.meta.dev;
+
+    return (error: unknown, context: DirectusErrorContext, message: string) => {
+        const apiError = toDirectusApiError(error, context);
+
+        if (logErrors) {
+            console.error(`${prefix} ${message}:`, apiError);
+        }
+
+        return apiError;
+    };
+};
@@ -0,0 +1,80 @@
+import type { NuxtApp } from "#app";
+import type { DirectusRequestContext } from "../types";
+import { fetchWithProgress, type DirectusUploadProgress } from "./upload";
+
+/**
+ * Request option carrying the composable method name to the hooks, never sent to `fetch`
+ */
+export const DIRECTUS_OPERATION = Symbol("directus-operation");
+
+/**
+ * Request option with an upload progress callback, the request is then sent with `XMLHttpRequest` in the browser
+ */
+export const DIRECTUS_UPLOAD_PROGRESS = Symbol("directus-upload-progress");
+
+const METHOD_OPERATIONS: Record<string, string> = {
+    GET: "read",
+    SEARCH: "read",
+    POST: "create",
+    PATCH: "update",
+    PUT: "update",
+    DELETE: "delete",
+};
+
+const getRelativePath = (url: string, baseUrl: string) => {
+    try {
+        const { pathname } = new URL(url);
+        const basePath = new URL(baseUrl).pathname.replace(/\/$/, "");
+        return pathname.startsWith(basePath) ? pathname.slice(basePath.length) || "/" : pathname;
+    } catch {
+        return url;
+    }
+};
+
+/**
+ * `fetch` for the SDK that calls the `directus:request`, `directus:response` and `directus:error` hooks
+ */
+export const createHookedFetch = (nuxtApp: NuxtApp, instance: string, baseUrl: string) => {
+    return async (input: string, init: RequestInit & { [DIRECTUS_OPERATION]?: string; [DIRECTUS_UPLOAD_PROGRESS]?: (progress: DirectusUploadProgress) => void } = {}) => {
+        const { [DIRECTUS_OPERATION]: operation, [DIRECTUS_UPLOAD_PROGRESS]: onProgress, ...options } = init;
+        const url = String(input);
+        const method = (options.method || "GET").toUpperCase();
+        const path = getRelativePath(url, baseUrl);
+        const collection = path.match(/^\/items\/([^/?]+)/)?.[1];
+
+        const context: DirectusRequestContext = {
+            instance,
+            url,
+            method,
+            path,
+            collection: collection ? decodeURIComponent(collection) : undefined,
+            operation: operation || METHOD_OPERATIONS[method] || method.toLowerCase(),
+            options,
+        };
+
+        await nuxtApp.callHook("directus:request", context);
+
+        const startedAt = performance.now();
+        let response: Response;
+
+        try {
+            response =
+                onProgress && typeof XMLHttpRequest !== "undefined"
+                    ? await fetchWithProgress(context.url, context.options, onProgress)
+                    : await globalThis.fetch(context.url, context.options);
+        } catch (error) {
+            await nuxtApp.callHook("directus:error", { ...context, status: null, duration: performance.now() - startedAt, error });
+            throw error;
+        }
+
+        const result = { ...context, status: response.status, headers: response.headers, duration: performance.now() - startedAt };
+
+        if (response.ok) {
+            await nuxtApp.callHook("directus:response", result);
+        } else {
+            await nuxtApp.callHook("directus:error", result);
+        }
+
+        return response;
+    };
+};
@@ -0,0 +1,18 @@
+import { useNuxtApp } from "#app";
+import type { DirectusInstance } from "../directus";
+
+export const DEFAULT_INSTANCE = "default";
+
+/**
+ * Get a Directus instance provided by the plugin, the default one when no name is given
+ */
+export const getDirectusInstance = (name: string = DEFAULT_INSTANCE) => {
+    const { $directusInstances } = useNuxtApp();
+    const instance = ($directusInstances as Record<string, DirectusInstance>)[name];
+
+    if (!instance) {
+        throw new Error(`[Directus] Unknown instance "${name}". Declare it in the \`directus.instances\` module option.`);
+    }
+
+    return instance;
+};
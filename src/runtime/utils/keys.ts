@@ -0,0 +1,36 @@
+/**
+ * JSON serialization with sorted object keys, so equal queries always produce the same string
+ */
+export const stableStringify = (value: unknown): string => {
+    if (value === undefined) return "";
+
+    return JSON.stringify(value, (_key, val) => {
+        if (val && typeof val === "object" && !Array.isArray(val)) {
+            return Object.keys(val)
+                .sort()
+                .reduce<Record<string, unknown>>((sorted, key) => {
+                    sorted[key] = val[key];
+                    return sorted;
+                }, {});
+        }
+        return val;
+    });
+};
+
+/**
+ * `useAsyncData` key of a Directus request, derived from the instance, collection, id and query
+ */
+export const getDirectusDataKey = (instance: string, collection: string, id: string | number | undefined, query: unknown) => {
+    const parts = ["directus", instance, collection];
+
+    if (id !== undefined) {
+        parts.push(String(id));
+    }
+
+    const serializedQuery = stableStringify(query);
+    if (serializedQuery) {
+        parts.push(serializedQuery);
+    }
+
+    return parts.join(":");
+};
@@ -0,0 +1,61 @@
+import { getDirectusCache } from "./cache";
+import { DEFAULT_INSTANCE } from "./instances";
+import { refreshDirectusData } from "./optimistic";
+
+export interface DirectusLivePreviewMessage {
+    action: "save" | "refresh";
+    /**
+     * Collection of the saved item, every collection is refreshed when missing
+     */
+    collection?: string;
+    key?: string | number;
+}
+
+/**
+ * Whether the page runs inside an iframe, such as the live preview panel of the Directus app
+ */
+export const isInPreviewFrame = () => import.meta.client && window.self !== window.top;
+
+/**
+ * Drop the cached reads and refetch the data composables of a collection, or of all collections.
+ * Must run in the Nuxt app context.
+ */
+export const refreshPreviewData = (collection?: string) => {
+    const cache = getDirectusCache(DEFAULT_INSTANCE);
+
+    if (collection) {
+        cache.invalidate(collection);
+    } else {
+        cache.invalidateAll();
+    }
+
+    return refreshDirectusData(DEFAULT_INSTANCE, collection);
+};
+
+const ACTIONS: Record<string, DirectusLivePreviewMessage["action"]> = {
+    save: "save",
+    saved: "save",
+    refresh: "refresh",
+};
+
+/**
+ * Read a message posted by the Directus app: `"refresh"`, or an object with `action` (or `type`)
+ * set to `save`, `saved` or `refresh` and an optional `collection` and `key` (or `item`), also nested in `data`
+ */
+export const parsePreviewMessage = (data: unknown): DirectusLivePreviewMessage | null => {
+    if (typeof data === "string") {
+        return ACTIONS[data] ? { action: ACTIONS[data] } : null;
+    }
+
+    if (!data || typeof data !== "object") return null;
+
+    const message = data as Record<string, any>;
+    const action = ACTIONS[message.action ?? message.type];
+    if (!action) return null;
+
+    const payload = message.data && typeof message.data === "object" ? message.data : message;
+    const collection = typeof payload.collection === "string" ? payload.collection : undefined;
+    const key = payload.key ?? payload.item;
+
+    return { action, collection, key: typeof key === "string" || typeof key === "number" ? key : undefined };
+};
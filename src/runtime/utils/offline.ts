@@ -0,0 +1,431 @@
+import { readonly, ref, shallowRef, watch, type Ref } from "vue";
+import type { NuxtApp } from "#app";
+import { createItem, deleteItem, readItem, updateItem, type NestedPartial, type Query, type RestCommand } from "@directus/sdk";
+import type { DirectusCollectionItem, DirectusCollections, DirectusNuxtClient, ResolvedDirectusSchema } from "../types";
+import { getDirectusCache } from "./cache";
+import { toDirectusApiError, type DirectusApiError } from "./errors";
+import { DIRECTUS_OPERATION } from "./hooks";
+import { createOptimisticChanges } from "./optimistic";
+import { withRequestInit } from "./request";
+
+type Schema = ResolvedDirectusSchema;
+
+export type DirectusQueuedOperation = "createOne" | "updateOne" | "deleteOne";
+
+/**
+ * Fields of a queued create or update
+ */
+export type DirectusQueuedData = NestedPartial<DirectusCollectionItem<DirectusCollections>>;
+
+/**
+ * Mutation waiting in the offline queue
+ */
+export interface DirectusQueuedMutation {
+    id: string;
+    instance: string;
+    /**
+     * User who queued the mutation, it is only replayed while they are signed in. `null` when signed out.
+     */
+    user: string | null;
+    collection: DirectusCollections;
+    operation: DirectusQueuedOperation;
+    /**
+     * Primary key of the updated or deleted item, or the temporary key of an optimistic create
+     */
+    itemId?: string | number;
+    data?: DirectusQueuedData;
+    query?: Query<Schema, Schema[DirectusCollections]>;
+    primaryKey: string;
+    /**
+     * Value of the conflict field (`date_updated`) the change was based on, `null` when unknown
+     */
+    baseline: string | null;
+    queuedAt: number;
+    /**
+     * `conflict` and `failed` mutations, and later ones of the same item, wait for `resolveConflict` or `discard`
+     */
+    status: "pending" | "conflict" | "failed";
+    error?: string;
+    /**
+     * Server version of the item when the mutation is in conflict, `null` when it was deleted
+     */
+    remote?: Record<string, unknown> | null;
+}
+
+export type DirectusQueueInput = Pick<DirectusQueuedMutation, "collection" | "operation" | "itemId" | "data" | "query" | "primaryKey" | "baseline">;
+
+export interface DirectusConflict {
+    mutation: DirectusQueuedMutation;
+    local: DirectusQueuedData | null;
+    remote: Record<string, unknown> | null;
+}
+
+/**
+ * `local` sends the queued change anyway, `remote` drops it, `{ data }` sends merged data instead
+ */
+export type DirectusConflictResolution = "local" | "remote" | { data: DirectusQueuedData };
+
+export type DirectusConflictHandler = (conflict: DirectusConflict) => DirectusConflictResolution | undefined | Promise<DirectusConflictResolution | undefined>;
+
+type ReplayOutcome = "done" | "held" | "offline";
+
+const DB_NAME = "nuxt-directus";
+const STORE_NAME = "mutations";
+
+let database: Promise<IDBDatabase> | null = null;
+
+const openDatabase = () =>
+    (database ||= new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, 1);
+        request.onupgradeneeded = () => request.result.createObjectStore(STORE_NAME, { keyPath: "id" });
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    }));
+
+const runStore = async <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>) => {
+    const db = await openDatabase();
+
+    return new Promise<T>((resolve, reject) => {
+        const request = run(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+};
+
+let counter = 0;
+
+// Sortable ids, so IndexedDB returns the mutations in the order they were queued
+const createMutationId = () => `${Date.now().toString(36).padStart(9, "0")}-${(counter++).toString(36).padStart(4, "0")}-${Math.random().toString(36).slice(2, 8)}`;
+
+/**
+ * Whether a request failed because Directus could not be reached, rather than being rejected or aborted
+ */
+export const isNetworkError = (error: DirectusApiError) =>
+    error.status === null && ((typeof navigator !== "undefined" && navigator.onLine === false) || error.cause instanceof TypeError);
+
+/**
+ * Offline queue of a Directus instance and its current user, persisted in IndexedDB and replayed in order
+ * when the browser comes back online or the WebSocket reconnects
+ */
+export const createOfflineQueue = (
+    nuxtApp: NuxtApp,
+    instance: string,
+    client: DirectusNuxtClient,
+    isWebSocketConnected: Ref<boolean>,
+    currentUser: Ref<{ id: string } | null>,
+) => {
+    const conflictField = nuxtApp.$config.public.directus?.offline?.conflictField || "date_updated";
+    const getUserId = () => currentUser.value?.id ?? null;
+
+    const entries = shallowRef<DirectusQueuedMutation[]>([]);
+    const isOnline = ref(import.meta.client ? navigator.onLine : true);
+    const isReplaying = ref(false);
+    const conflictHandlers = new Set<DirectusConflictHandler>();
+
+    let started = false;
+    let replayAgain = false;
+
+    // The queue keeps working in memory when IndexedDB is unavailable (private browsing, SSR)
+    const persist = async (run: (store: IDBObjectStore) => IDBRequest) => {
+        if (typeof indexedDB === "undefined") return;
+
+        try {
+            await runStore("readwrite", run);
+        } catch (error) {
+            console.warn("[Directus] Could not persist the offline queue:", error);
+        }
+    };
+
+    const save = async (entry: DirectusQueuedMutation) => {
+        entries.value = entries.value.some((current) => current.id === entry.id)
+            ? entries.value.map((current) => (current.id === entry.id ? entry : current))
+            : [...entries.value, entry];
+        await persist((store) => store.put(entry));
+    };
+
+    const remove = async (id: string) => {
+        entries.value = entries.value.filter((entry) => entry.id !== id);
+        await persist((store) => store.delete(id));
+    };
+
+    const afterChange = (collection: string, run?: () => void) =>
+        nuxtApp.runWithContext(() => {
+            run?.();
+            getDirectusCache(instance).invalidate(collection);
+        });
+
+    const send = <Output>(operation: DirectusQueuedOperation, command: RestCommand<Output, Schema>) =>
+        client.request(withRequestInit(command, { [DIRECTUS_OPERATION]: operation } as RequestInit));
+
+    const resolveConflict = async (conflict: DirectusConflict) => {
+        for (const handler of conflictHandlers) {
+            const resolution = await handler(conflict);
+            if (resolution) return resolution;
+        }
+        return undefined;
+    };
+
+    // Read the server version, `null` when the item is gone or no longer readable
+    const readRemote = async (entry: DirectusQueuedMutation) => {
+        try {
+            return (await send(entry.operation, readItem(entry.collection, entry.itemId!))) as Record<string, unknown>;
+        } catch (error) {
+            const apiError = toDirectusApiError(error, { collection: entry.collection, operation: entry.operation });
+            if (apiError.status === 403 || apiError.status === 404) return null;
+            throw apiError;
+        }
+    };
+
+    // Give items created offline their real primary key in the mutations queued after them
+    const remapItemId = async (tempId: string | number, id: string | number) => {
+        for (const entry of entries.value) {
+            if (entry.itemId === tempId) await save({ ...entry, itemId: id });
+        }
+    };
+
+    const replayEntry = async (entry: DirectusQueuedMutation): Promise<ReplayOutcome> => {
+        const { collection, operation, itemId, query, primaryKey } = entry;
+        let data = entry.data;
+
+        try {
+            if (operation !== "createOne") {
+                const remote = await readRemote(entry);
+
+                if (!remote && operation === "deleteOne") {
+                    await remove(entry.id);
+                    return "done";
+                }
+
+                // Changed on the server since the version the change was based on. Without a baseline only a removed
+                // item is a conflict, the browser clock cannot be compared with the server's timestamps.
+                const remoteUpdated = remote?.[conflictField];
+                const isConflict = !remote || (!!entry.baseline && typeof remoteUpdated === "string" && Date.parse(remoteUpdated) > Date.parse(entry.baseline));
+
+                if (isConflict) {
+                    const resolution = await resolveConflict({ mutation: entry, local: data ?? null, remote });
+
+                    if (!resolution) {
+                        await save({ ...entry, status: "conflict", remote });
+                        return "held";
+                    }
+
+                    if (resolution === "remote") {
+                        await remove(entry.id);
+                        afterChange(collection);
+                        return "done";
+                    }
+
+                    if (resolution !== "local") data = resolution.data;
+                }
+            }
+
+            const result = (await send(
+                operation,
+                operation === "createOne"
+                    ? createItem(collection, data ?? {}, query)
+                    : operation === "updateOne"
+                      ? updateItem(collection, itemId!, data ?? {}, query)
+                      : deleteItem(collection, itemId!),
+            )) as Record<string, unknown> | undefined;
+
+            await remove(entry.id);
+
+            // Reconcile the lists holding the optimistic version with the server result
+            afterChange(collection, () => {
+                if (itemId !== undefined && result && typeof result === "object") {
+                    createOptimisticChanges(instance, collection, primaryKey).update(itemId, result).commit(result);
+                }
+            });
+
+            if (operation === "createOne" && itemId !== undefined && result?.[primaryKey] !== undefined) {
+                await remapItemId(itemId, result[primaryKey] as string | number);
+            }
+
+            return "done";
+        } catch (error) {
+            const apiError = toDirectusApiError(error, { collection, operation });
+            if (isNetworkError(apiError)) return "offline";
+
+            await save({ ...entry, status: "failed", error: apiError.message });
+            return "held";
+        }
+    };
+
+    /**
+     * Send the pending mutations in order, holding back later mutations of items in conflict or failed
+     */
+    const replay = async (): Promise<void> => {
+        // Mutations queued during a replay are picked up by another pass
+        if (isReplaying.value) {
+            replayAgain = true;
+            return;
+        }
+        if (!entries.value.length) return;
+
+        isReplaying.value = true;
+        replayAgain = false;
+        let isOffline = false;
+
+        const held = new Set<string>();
+
+        try {
+            for (const entry of [...entries.value]) {
+                // Entries may have been remapped or removed while earlier ones were replayed
+                const current = entries.value.find((candidate) => candidate.id === entry.id);
+                if (!current) continue;
+
+                const itemKey = `${current.collection}:${current.itemId ?? current.id}`;
+                if (current.status !== "pending" || held.has(itemKey)) {
+                    held.add(itemKey);
+                    continue;
+                }
+
+                const outcome = await replayEntry(current);
+                if (outcome === "offline") {
+                    isOffline = true;
+                    break;
+                }
+                if (outcome === "held") held.add(itemKey);
+            }
+        } finally {
+            isReplaying.value = false;
+        }
+
+        if (replayAgain && !isOffline) await replay();
+    };
+
+    /**
+     * Add a mutation to the queue
+     */
+    const enqueue = async (input: DirectusQueueInput) => {
+        // Reactive objects cannot be stored in IndexedDB
+        const entry: DirectusQueuedMutation = JSON.parse(
+            JSON.stringify({ ...input, id: createMutationId(), instance, user: getUserId(), queuedAt: Date.now(), status: "pending" }),
+        );
+
+        await save(entry);
+        start();
+        return entry;
+    };
+
+    /**
+     * Whether mutations of a collection are waiting to be sent, new ones have to queue up behind them.
+     * Mutations in conflict or failed wait for the user and don't hold back the collection.
+     */
+    const isQueued = (collection: string) => entries.value.some((entry) => entry.collection === collection && entry.status === "pending");
+
+    /**
+     * Resolve a mutation in conflict, or retry a failed one with `local`
+     */
+    const resolve = async (id: string, resolution: DirectusConflictResolution) => {
+        const entry = entries.value.find((candidate) => candidate.id === id);
+        if (!entry) return;
+
+        if (resolution === "remote") {
+            await remove(id);
+            afterChange(entry.collection);
+            return;
+        }
+
+        // The server version is now the baseline, so the next replay does not report it again
+        const remoteUpdated = entry.remote?.[conflictField];
+        await save({
+            ...entry,
+            status: "pending",
+            error: undefined,
+            remote: undefined,
+            data: resolution === "local" ? entry.data : JSON.parse(JSON.stringify(resolution.data)),
+            baseline: typeof remoteUpdated === "string" ? remoteUpdated : new Date().toISOString(),
+        });
+
+        if (isOnline.value) await replay();
+    };
+
+    /**
+     * Drop a queued mutation
+     */
+    const discard = async (id: string) => {
+        const entry = entries.value.find((candidate) => candidate.id === id);
+        await remove(id);
+        if (entry) afterChange(entry.collection);
+    };
+
+    /**
+     * Drop the mutations of this instance and user, the database is shared with the other instances and users
+     */
+    const clear = async () => {
+        const cleared = entries.value;
+        entries.value = [];
+        await Promise.all(cleared.map((entry) => persist((store) => store.delete(entry.id))));
+        new Set(cleared.map((entry) => entry.collection)).forEach((collection) => afterChange(collection));
+    };
+
+    /**
+     * Register a handler deciding conflicts during replay, returns a function removing it
+     */
+    const onConflict = (handler: DirectusConflictHandler) => {
+        conflictHandlers.add(handler);
+        return () => conflictHandlers.delete(handler);
+    };
+
+    // Load the persisted mutations of this instance and the current user
+    const load = () => {
+        if (typeof indexedDB === "undefined") return;
+
+        const userId = getUserId();
+
+        runStore<DirectusQueuedMutation[]>("readonly", (store) => store.getAll())
+            .then((stored) => {
+                // The user changed while the queue was loading
+                if (getUserId() !== userId) return;
+
+                const known = new Set(entries.value.map((entry) => entry.id));
+                const queued = stored.filter((entry) => entry.instance === instance && (entry.user ?? null) === userId && !known.has(entry.id));
+                entries.value = [...queued, ...entries.value];
+                if (isOnline.value) replay();
+            })
+            .catch((error) => console.warn("[Directus] Could not load the offline queue:", error));
+    };
+
+    /**
+     * Load the persisted queue and replay it whenever connectivity returns (client only, runs once)
+     */
+    const start = () => {
+        if (!import.meta.client || started) return;
+        started = true;
+
+        window.addEventListener("online", () => {
+            isOnline.value = true;
+            replay();
+        });
+        window.addEventListener("offline", () => {
+            isOnline.value = false;
+        });
+
+        watch(isWebSocketConnected, (connected, wasConnected) => {
+            if (connected && !wasConnected) replay();
+        });
+
+        // Mutations are sent with the session of the user who queued them, switch to the queue of the new user
+        watch(getUserId, (userId) => {
+            entries.value = entries.value.filter((entry) => entry.user === userId);
+            load();
+        });
+
+        load();
+    };
+
+    return {
+        entries: readonly(entries),
+        isOnline: readonly(isOnline),
+        isReplaying: readonly(isReplaying),
+        enqueue,
+        isQueued,
+        replay,
+        resolve,
+        discard,
+        clear,
+        onConflict,
+        start,
+    };
+};
@@ -0,0 +1,172 @@
+import { useNuxtApp, type NuxtApp } from "#app";
+import { getCurrentScope, onScopeDispose } from "vue";
+
+type DirectusItemRecord = Record<string, unknown>;
+
+/**
+ * Reactive list held by a data composable that optimistic mutations write into
+ */
+export interface DirectusDataTarget {
+    readonly collection: string;
+    /**
+     * Whether optimistically created items are appended to this list
+     */
+    acceptsCreate: boolean;
+    read: () => DirectusItemRecord[];
+    write: (items: DirectusItemRecord[]) => void;
+    /**
+     * Refetch the data, e.g. after an edit in the Directus live preview
+     */
+    refresh?: () => Promise<unknown>;
+}
+
+const registries = new WeakMap<NuxtApp, Map<string, Set<DirectusDataTarget>>>();
+
+const getTargets = (instance: string) => {
+    const nuxtApp = useNuxtApp();
+
+    let appTargets = registries.get(nuxtApp);
+    if (!appTargets) {
+        appTargets = new Map();
+        registries.set(nuxtApp, appTargets);
+    }
+
+    let targets = appTargets.get(instance);
+    if (!targets) {
+        targets = new Set();
+        appTargets.set(instance, targets);
+    }
+
+    return targets;
+};
+
+/**
+ * Register a reactive list for optimistic mutations, until the calling component is unmounted
+ */
+export const registerDirectusData = (instance: string, target: DirectusDataTarget) => {
+    const targets = getTargets(instance);
+    targets.add(target);
+
+    if (getCurrentScope()) {
+        onScopeDispose(() => targets.delete(target));
+    }
+};
+
+/**
+ * Refetch the registered lists of a collection, or of all collections
+ */
+export const refreshDirectusData = (instance: string, collection?: string) =>
+    Promise.all(
+        [...getTargets(instance)].filter((target) => target.refresh && (!collection || target.collection === collection)).map((target) => target.refresh!()),
+    );
+
+/**
+ * Find an item of a collection in the registered lists
+ */
+export const findDirectusItem = (instance: string, collection: string, primaryKey: string, id: string | number) => {
+    for (const target of getTargets(instance)) {
+        if (target.collection !== collection) continue;
+
+        const item = target.read().find((candidate) => candidate != null && String(candidate[primaryKey]) === String(id));
+        if (item) return item;
+    }
+    return undefined;
+};
+
+/**
+ * Apply create, update and delete changes to the registered lists of a collection.
+ * Every change returns `commit` to reconcile it with the server result and `rollback` to undo it.
+ */
+export const createOptimisticChanges = (instance: string, collection: string, primaryKey: string) => {
+    const targets = [...getTargets(instance)].filter((target) => target.collection === collection);
+    const matches = (item: DirectusItemRecord | undefined, id: unknown) => item != null && String(item[primaryKey]) === String(id);
+
+    const replaceItem = (id: unknown, replace: (item: DirectusItemRecord) => DirectusItemRecord) => {
+        for (const target of targets) {
+            const items = target.read();
+            if (items.some((item) => matches(item, id))) {
+                target.write(items.map((item) => (matches(item, id) ? replace(item) : item)));
+            }
+        }
+    };
+
+    const removeItem = (id: unknown) => {
+        for (const target of targets) {
+            const items = target.read();
+            if (items.some((item) => matches(item, id))) {
+                target.write(items.filter((item) => !matches(item, id)));
+            }
+        }
+    };
+
+    const create = (item: DirectusItemRecord) => {
+        // Temporary primary key until the server returns the real one
+        const tempId = item[primaryKey] ?? `temp_${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`;
+        const optimisticItem = { ...item, [primaryKey]: tempId };
+
+        for (const target of targets) {
+            if (target.acceptsCreate) {
+                target.write([...target.read(), optimisticItem]);
+            }
+        }
+
+        return {
+            id: tempId as string | number,
+            commit: (result: unknown) => {
+                if (result && typeof result === "object") {
+                    replaceItem(tempId, (current) => ({ ...current, ...(result as DirectusItemRecord) }));
+                }
+            },
+            rollback: () => removeItem(tempId),
+        };
+    };
+
+    const update = (id: string | number, patch: DirectusItemRecord) => {
+        const previous = new Map<DirectusDataTarget, DirectusItemRecord>();
+
+        for (const target of targets) {
+            const original = target.read().find((item) => matches(item, id));
+            if (original) previous.set(target, original);
+        }
+
+        replaceItem(id, (item) => ({ ...item, ...patch }));
+
+        return {
+            commit: (result: unknown) => {
+                if (result && typeof result === "object") {
+                    replaceItem(id, (current) => ({ ...current, ...(result as DirectusItemRecord) }));
+                }
+            },
+            rollback: () => {
+                for (const [target, original] of previous) {
+                    target.write(target.read().map((item) => (matches(item, id) ? original : item)));
+                }
+            },
+        };
+    };
+
+    const remove = (id: string | number) => {
+        const previous = new Map<DirectusDataTarget, { index: number; item: DirectusItemRecord }>();
+
+        for (const target of targets) {
+            const items = target.read();
+            const index = items.findIndex((item) => matches(item, id));
+            if (index !== -1) previous.set(target, { index, item: items[index]! });
+        }
+
+        removeItem(id);
+
+        return {
+            commit: () => {},
+            rollback: () => {
+                for (const [target, { index, item }] of previous) {
+                    const items = [...target.read()];
+                    items.splice(Math.min(index, items.length), 0, item);
+                    target.write(items);
+                }
+            },
+        };
+    };
+
+    return { create, update, remove };
+};
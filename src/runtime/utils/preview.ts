@@ -0,0 +1,40 @@
+import { useRuntimeConfig, useState } from "#app";
+
+/**
+ * Content version of the active draft preview, `null` outside of preview.
+ * Resolved from the httpOnly preview cookie on the server and handed to the client in the payload.
+ */
+export const usePreviewVersion = () => useState<string | null>("directus-preview", () => null);
+
+// Conditions on the status field become `_in: statuses`, at the top level and in `_and`
+const widenStatusFilter = (filter: unknown, field: string, statuses: string[]): unknown => {
+    if (!filter || typeof filter !== "object" || Array.isArray(filter)) return filter;
+
+    const result: Record<string, unknown> = { ...filter };
+    if (field in result) result[field] = { _in: statuses };
+    if (Array.isArray(result._and)) result._and = result._and.map((condition) => widenStatusFilter(condition, field, statuses));
+    return result;
+};
+
+/**
+ * Query transforms of the read helpers while preview is on: draft statuses for every read,
+ * plus the content version for single items and singletons
+ */
+export const usePreviewQuery = () => {
+    const version = usePreviewVersion();
+    const config = useRuntimeConfig().public.directus?.preview;
+    const statusField = config?.statusField || "status";
+    const statuses = config?.statuses || ["draft", "published"];
+
+    const withStatuses = <T>(query: T): T => {
+        if (!version.value || !query || typeof query !== "object" || !("filter" in query)) return query;
+        return { ...query, filter: widenStatusFilter((query as { filter?: unknown }).filter, statusField, statuses) };
+    };
+
+    const withVersion = <T>(query: T): T => {
+        if (!version.value) return query;
+        return { ...withStatuses(query ?? ({} as T)), version: version.value };
+    };
+
+    return { version, withStatuses, withVersion };
+};
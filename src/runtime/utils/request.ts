@@ -0,0 +1,165 @@
+import { getCurrentInstance, onUnmounted } from "vue";
+import { useRouter } from "#app";
+import type { RestCommand } from "@directus/sdk";
+
+export interface DirectusRequestOptions {
+    /**
+     * Abort the request after this many milliseconds, `0` disables the timeout
+     */
+    timeout?: number;
+    /**
+     * Retries of idempotent reads answered with 429 or 503, `false` disables retrying
+     */
+    retry?: number | false;
+    /**
+     * Base delay of the exponential backoff in milliseconds
+     */
+    retryDelay?: number;
+    /**
+     * Abort the request, e.g. from an `AbortController` of the caller
+     */
+    signal?: AbortSignal;
+}
+
+interface RunRequestOptions extends DirectusRequestOptions {
+    /**
+     * Only reads are retried, a retried mutation could be applied twice
+     */
+    idempotent: boolean;
+}
+
+const RETRY_STATUSES = [429, 503];
+const MAX_RETRY_DELAY = 30_000;
+
+export class DirectusTimeoutError extends Error {
+    constructor(timeout: number) {
+        super(`Directus request timed out after ${timeout}ms`);
+        this.name = "TimeoutError";
+    }
+}
+
+// Seconds or an HTTP date, as sent by Directus' rate limiter
+const getRetryAfter = (error: any) => {
+    const value = error?.response?.headers?.get?.("Retry-After");
+    if (!value) return null;
+
+    const seconds = Number(value);
+    if (!Number.isNaN(seconds)) return seconds * 1000;
+
+    const date = Date.parse(value);
+    return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+};
+
+const sleep = (ms: number, signal?: AbortSignal) =>
+    new Promise<void>((resolve, reject) => {
+        if (signal?.aborted) return reject(signal.reason);
+
+        const timer = setTimeout(() => {
+            signal?.removeEventListener("abort", onAbort);
+            resolve();
+        }, ms);
+
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(signal?.reason);
+        };
+
+        signal?.addEventListener("abort", onAbort, { once: true });
+    });
+
+/**
+ * Run a request with a timeout, retries with exponential backoff and jitter, and cancellation.
+ * `send` receives the signal to pass on to `fetch` for each attempt.
+ */
+export const runDirectusRequest = async <T>(send: (signal: AbortSignal) => Promise<T>, options: RunRequestOptions): Promise<T> => {
+    const { timeout = 0, retryDelay = 500, signal } = options;
+    const retries = options.idempotent && options.retry ? options.retry : 0;
+
+    for (let attempt = 0; ; attempt++) {
+        signal?.throwIfAborted();
+
+        // One controller per attempt, aborted by the caller's signal or the timeout
+        const controller = new AbortController();
+        const abort = () => controller.abort(signal?.reason);
+        signal?.addEventListener("abort", abort, { once: true });
+
+        const timer = timeout > 0 ? setTimeout(() => controller.abort(new DirectusTimeoutError(timeout)), timeout) : null;
+
+        try {
+            return await send(controller.signal);
+        } catch (error: any) {
+            // Surface the timeout instead of the generic AbortError of fetch
+            if (controller.signal.aborted && !signal?.aborted) {
+                throw controller.signal.reason;
+            }
+
+            const status = error?.response?.status;
+            if (signal?.aborted || attempt >= retries || !RETRY_STATUSES.includes(status)) {
+                throw error;
+            }
+
+            const backoff = retryDelay * 2 ** attempt + Math.random() * retryDelay;
+            await sleep(Math.min(getRetryAfter(error) ?? backoff, MAX_RETRY_DELAY), signal);
+        } finally {
+            if (timer) clearTimeout(timer);
+            signal?.removeEventListener("abort", abort);
+        }
+    }
+};
+
+/**
+ * Add options to the `fetch` call of a REST command, keeping the command's own `onRequest`
+ */
+export const withRequestInit = <Output, Schema>(command: RestCommand<Output, Schema>, init: RequestInit): RestCommand<Output, Schema> => () => {
+    const options = command();
+    const onRequest = options.onRequest;
+
+    return {
+        ...options,
+        onRequest: async (requestOptions) => ({ ...(onRequest ? await onRequest(requestOptions) : requestOptions), ...init }),
+    };
+};
+
+/**
+ * Signal aborted as soon as one of the given signals aborts
+ */
+export const combineSignals = (...signals: (AbortSignal | undefined)[]) => {
+    const active = signals.filter((signal): signal is AbortSignal => !!signal);
+    if (active.length <= 1) return active[0];
+
+    const controller = new AbortController();
+    for (const signal of active) {
+        if (signal.aborted) {
+            controller.abort(signal.reason);
+            break;
+        }
+        signal.addEventListener("abort", () => controller.abort(signal.reason), { once: true });
+    }
+    return controller.signal;
+};
+
+/**
+ * Signal of the calling component, aborted when it unmounts or the route changes.
+ * Returns `undefined` outside of components and on the server.
+ */
+export const useComponentAbortSignal = () => {
+    if (!import.meta.client || !getCurrentInstance()) {
+        return () => undefined;
+    }
+
+    let controller = new AbortController();
+
+    const removeGuard = useRouter().beforeEach((to, from) => {
+        if (to.fullPath !== from.fullPath) {
+            controller.abort(new DOMException("Route changed", "AbortError"));
+            controller = new AbortController();
+        }
+    });
+
+    onUnmounted(() => {
+        removeGuard();
+        controller.abort(new DOMException("Component unmounted", "AbortError"));
+    });
+
+    return () => controller.signal;
+};
@@ -0,0 +1,41 @@
+export interface DirectusRolesConfig {
+    field?: string;
+    mapping?: Record<string, string>;
+    transform?: (fieldValue: any, user: any) => string | string[];
+}
+
+/**
+ * Resolve a user's roles with the configured field, transform and mapping
+ * (see `DirectusPermissionsConfig`)
+ */
+export const getUserRoles = (user: Record<string, any>, permissionsConfig?: DirectusRolesConfig): string[] => {
+    // Extract user's role(s) using configured field
+    const roleField = permissionsConfig?.field || "role";
+    let roleValue = user[roleField];
+
+    // Apply transform function if configured
+    if (permissionsConfig?.transform && typeof permissionsConfig.transform === "function") {
+        try {
+            roleValue = permissionsConfig.transform(roleValue, user);
+        } catch (e) {
+            console.error("[Directus] Error in permissions transform function:", e);
+        }
+    }
+
+    // Normalize to array for consistent checking
+    let roles: string[];
+    if (Array.isArray(roleValue)) {
+        roles = roleValue;
+    } else if (roleValue != null) {
+        roles = [roleValue];
+    } else {
+        roles = [];
+    }
+
+    // Apply mapping to each role if configured
+    if (permissionsConfig?.mapping) {
+        roles = roles.map((role) => permissionsConfig.mapping![role] || role);
+    }
+
+    return roles;
+};
@@ -0,0 +1,57 @@
+export interface DirectusUploadProgress {
+    loaded: number;
+    total: number;
+    /**
+     * Progress from 0 to 100
+     */
+    percent: number;
+}
+
+const toHeaders = (raw: string) => {
+    const headers = new Headers();
+    for (const line of raw.trim().split(/[\r\n]+/)) {
+        const index = line.indexOf(":");
+        if (index > 0) headers.append(line.slice(0, index).trim(), line.slice(index + 1).trim());
+    }
+    return headers;
+};
+
+/**
+ * `fetch` backed by `XMLHttpRequest`, as `fetch` cannot report upload progress.
+ * Resolves a `Response` so the SDK, the hooks and the transformers handle it like any other request.
+ */
+export const fetchWithProgress = (url: string, init: RequestInit, onProgress: (progress: DirectusUploadProgress) => void) =>
+    new Promise<Response>((resolve, reject) => {
+        const { signal } = init;
+
+        if (signal?.aborted) {
+            return reject(signal.reason);
+        }
+
+        const xhr = new XMLHttpRequest();
+        xhr.open(init.method || "GET", url);
+        xhr.withCredentials = init.credentials === "include";
+
+        new Headers(init.headers).forEach((value, name) => xhr.setRequestHeader(name, value));
+
+        xhr.upload.addEventListener("progress", (event) => {
+            if (!event.lengthComputable) return;
+            onProgress({ loaded: event.loaded, total: event.total, percent: Math.round((event.loaded / event.total) * 100) });
+        });
+
+        const onAbort = () => xhr.abort();
+        signal?.addEventListener("abort", onAbort, { once: true });
+
+        xhr.addEventListener("loadend", () => signal?.removeEventListener("abort", onAbort));
+
+        xhr.addEventListener("load", () => {
+            // A 204 response cannot have a body
+            const body = xhr.status === 204 ? null : xhr.responseText;
+            resolve(new Response(body, { status: xhr.status, statusText: xhr.statusText, headers: toHeaders(xhr.getAllResponseHeaders()) }));
+        });
+
+        xhr.addEventListener("error", () => reject(new TypeError("Network error while uploading to Directus")));
+        xhr.addEventListener("abort", () => reject(signal?.reason ?? new DOMException("Upload aborted", "AbortError")));
+
+        xhr.send(init.body as XMLHttpRequestBodyInit | null | undefined);
+    });